@@ -0,0 +1,45 @@
+import createClient, { type ClientOptions } from "openapi-fetch";
+import type { components, paths } from "./schema.ts";
+
+export type { components, operations, paths } from "./schema.ts";
+
+// Named API schemas, e.g. Schema<"Book">
+export type Schema<Name extends keyof components["schemas"]> =
+  components["schemas"][Name];
+
+// Body of every error response
+export type Problem = Schema<"Problem">;
+
+export interface ElibClientOptions extends ClientOptions {
+  // Read before every request, so a refreshed token is picked up
+  accessToken?: () => string | undefined;
+}
+
+/**
+ * Typed client for the eLib API. Paths, parameters, bodies and responses
+ * come from src/schema.ts, which is generated from the API's OpenAPI
+ * document (`npm run generate:client` in the API repository).
+ *
+ *   const api = createElibClient({ baseUrl, accessToken: () => token });
+ *   const { data, error } = await api.GET("/api/books/{bookId}", {
+ *     params: { path: { bookId } },
+ *   });
+ */
+export const createElibClient = ({
+  accessToken,
+  ...options
+}: ElibClientOptions = {}) => {
+  const client = createClient<paths>(options);
+
+  if (accessToken) {
+    client.use({
+      onRequest({ request }) {
+        const token = accessToken();
+        if (token) request.headers.set("Authorization", `Bearer ${token}`);
+        return request;
+      },
+    });
+  }
+
+  return client;
+};
@@ -0,0 +1,41 @@
+/**
+ * Write the OpenAPI document to client/openapi.json and regenerate the
+ * client's types (client/src/schema.ts) from it. Fails when a route has no
+ * entry in its module's *Docs.ts. Reads the same environment as the API.
+ *
+ *   npm run generate:client
+ */
+import fs from "node:fs/promises";
+import openapiTS, { astToString } from "openapi-typescript";
+import { buildOpenApiDocument } from "../src/docs/openapi.ts";
+
+const clientDir = new URL("../client/", import.meta.url);
+
+const run = async () => {
+  const { document, undocumented } = buildOpenApiDocument();
+  if (undocumented.length) {
+    throw new Error(`Routes missing from the API docs: ${undocumented.join(", ")}`);
+  }
+
+  await fs.writeFile(
+    new URL("openapi.json", clientDir),
+    JSON.stringify(document, null, 2) + "\n"
+  );
+
+  const ast = await openapiTS(JSON.stringify(document));
+  await fs.writeFile(
+    new URL("src/schema.ts", clientDir),
+    "// Generated by `npm run generate:client` from the API's OpenAPI document.\n" +
+      "// Do not edit by hand.\n\n" +
+      astToString(ast)
+  );
+  console.log(`Generated the client from ${Object.keys(document.paths).length} paths`);
+};
+
+run().then(
+  () => process.exit(0),
+  (error) => {
+    console.error("Client generation failed:", error);
+    process.exit(1);
+  }
+);
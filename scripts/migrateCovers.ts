@@ -0,0 +1,97 @@
+/**
+ * Convert books stored before cover processing (a single `coverImage` URL)
+ * to WebP cover variants with a blurhash. Each original is downloaded,
+ * processed like a fresh upload and then deleted. Books whose cover fails
+ * validation are reported and left as they are. Safe to re-run.
+ *
+ *   npm run migrate:covers
+ *
+ * With the local storage driver the API must be running, since originals
+ * are fetched through their URLs. Originals whose asset id cannot be
+ * worked out from their URL are left in storage.
+ */
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import mongoose from "mongoose";
+import connectDB from "../src/config/db.ts";
+import bookModel from "../src/book/bookModel.ts";
+import { legacyCoverAsset, type LegacyBookAssets } from "../src/book/legacyBook.ts";
+import { migrateLegacyCover } from "../src/book/bookService.ts";
+import storage from "../src/storage/storage.ts";
+
+interface LegacyBook extends LegacyBookAssets {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+}
+
+const download = async (url: string, filePath: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`GET ${url} answered ${response.status}`);
+  }
+  await fs.promises.writeFile(
+    filePath,
+    Buffer.from(await response.arrayBuffer())
+  );
+};
+
+const run = async () => {
+  await connectDB();
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "covers-"));
+  let migrated = 0;
+  let failed = 0;
+
+  try {
+    const legacy = bookModel.collection.find<LegacyBook>(
+      {
+        cover: { $exists: false },
+        $or: [{ coverImage: { $exists: true } }, { coverImageId: { $exists: true } }],
+      },
+      { projection: { title: 1, coverImage: 1, coverImageId: 1 } }
+    );
+
+    for await (const book of legacy) {
+      const filePath = path.join(workDir, String(book._id));
+      try {
+        const original = legacyCoverAsset(book);
+        // Public URL first; signed URLs also reach private deliveries
+        const fetchSigned = async () => {
+          if (!original) {
+            throw new Error(`Could not download ${book.coverImage ?? "the cover"}`);
+          }
+          await download(
+            await storage.getSignedUrl(original.assetId, "image"),
+            filePath
+          );
+        };
+        await (book.coverImage
+          ? download(book.coverImage, filePath).catch(fetchSigned)
+          : fetchSigned());
+        await migrateLegacyCover(book, original, {
+          path: filePath,
+          filename: String(book._id),
+          mimetype: "image/webp",
+        });
+        migrated += 1;
+      } catch (error) {
+        failed += 1;
+        console.error(
+          `Book ${book._id} ("${book.title}"): ${(error as Error).message}`
+        );
+      } finally {
+        await fs.promises.rm(filePath, { force: true });
+      }
+    }
+
+    console.log(`Migrated ${migrated} cover(s), ${failed} failed`);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+    await mongoose.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error("Cover migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+/**
+ * Convert books stored before renditions (a single `file` URL, plus
+ * `fileId` from the storage layer on) so that file becomes their only
+ * entry in `files`. The asset itself is not moved: each file is downloaded
+ * once to read its format, size, checksum and page count. Books whose file
+ * cannot be fetched or is not a supported format are reported and left as
+ * they are. Safe to re-run.
+ *
+ *   npm run migrate:files
+ *
+ * With the local storage driver the API must be running, since files are
+ * fetched through their URLs.
+ */
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream } from "node:stream/web";
+import mongoose from "mongoose";
+import connectDB from "../src/config/db.ts";
+import bookModel from "../src/book/bookModel.ts";
+import { legacyFileAsset, type LegacyBookAssets } from "../src/book/legacyBook.ts";
+import { migrateLegacyFile } from "../src/book/bookService.ts";
+import storage from "../src/storage/storage.ts";
+
+interface LegacyBook extends LegacyBookAssets {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  file: string;
+  createdAt?: Date;
+}
+
+// Streamed to disk, book files can be hundreds of megabytes
+const download = async (url: string, filePath: string) => {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`GET ${url} answered ${response.status}`);
+  }
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream),
+    fs.createWriteStream(filePath)
+  );
+};
+
+const run = async () => {
+  await connectDB();
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "files-"));
+  let migrated = 0;
+  let failed = 0;
+
+  try {
+    const legacy = bookModel.collection.find<LegacyBook>(
+      { "files.0": { $exists: false }, file: { $exists: true } },
+      { projection: { title: 1, file: 1, fileId: 1, createdAt: 1 } }
+    );
+
+    for await (const book of legacy) {
+      const filePath = path.join(workDir, String(book._id));
+      try {
+        const asset = legacyFileAsset(book);
+        if (!asset) {
+          throw new Error(`No asset id found for ${book.file}`);
+        }
+        // Public URL first; signed URLs also reach private deliveries
+        await download(book.file, filePath).catch(async () =>
+          download(await storage.getSignedUrl(asset.assetId, "raw"), filePath)
+        );
+        await migrateLegacyFile(book, asset, filePath);
+        migrated += 1;
+      } catch (error) {
+        failed += 1;
+        console.error(
+          `Book ${book._id} ("${book.title}"): ${(error as Error).message}`
+        );
+      } finally {
+        await fs.promises.rm(filePath, { force: true });
+      }
+    }
+
+    console.log(`Migrated ${migrated} book file(s), ${failed} failed`);
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+    await mongoose.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error("Book file migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+/**
+ * Find (and with --fix, clean up) storage assets and database references
+ * that have drifted apart. See src/admin/reconcile.ts.
+ *
+ *   npm run reconcile            # report only
+ *   npm run reconcile -- --fix   # delete orphans, clear dangling avatars
+ */
+import mongoose from "mongoose";
+import connectDB from "../src/config/db.ts";
+import { reconcileAssets } from "../src/admin/reconcile.ts";
+
+const fix = process.argv.includes("--fix");
+
+const run = async () => {
+  await connectDB();
+  try {
+    const report = await reconcileAssets({ fix });
+    console.log(JSON.stringify(report, null, 2));
+    console.log(
+      `${report.orphanedAssets.length} orphaned asset(s), ${report.danglingReferences.length} dangling reference(s)` +
+        (fix
+          ? `; deleted ${report.deletedAssets}, cleared ${report.clearedReferences}`
+          : "")
+    );
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+run().catch((error) => {
+  console.error("Reconciliation failed:", error);
+  process.exit(1);
+});
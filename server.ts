@@ -1,14 +1,83 @@
+import type { Server } from 'node:http';
+import { setTimeout as sleep } from 'node:timers/promises';
 import app from './src/app.ts'
 import  {config}  from './src/config/config.ts';
-import connectDB from './src/config/db.ts';
+import connectDB, { disconnectDB } from './src/config/db.ts';
+import { startTrashPurgeJob } from './src/book/bookPurge.ts';
+import { ensureDefaultGenres } from './src/genre/genreController.ts';
+import { failInterruptedImports } from './src/catalogue/importRunner.ts';
+import { startUploadSessionPurgeJob } from './src/upload/uploadSessionPurge.ts';
+import { publishLegacyBooks, startPublishScheduler } from './src/book/bookPublishing.ts';
+import { drainUploads } from './src/upload/uploadMiddleware.ts';
+import { markShuttingDown } from './src/health/healthController.ts';
+import logger from './src/observability/logger.ts';
+
+/**
+ * Stop taking traffic, let in-flight requests (uploads included) finish
+ * for up to `shutdownTimeoutSeconds`, then cut whatever is left, wait for
+ * upload temp files to be removed and close the database connection.
+ */
+const shutdown = async (server: Server, jobs: NodeJS.Timeout[], signal: string) => {
+    logger.info({ signal }, "Shutting down")
+    markShuttingDown()
+    jobs.forEach((job) => clearInterval(job))
+
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()))
+    const drained = Promise.all([closed, drainUploads()]).then(() => true)
+    const timeout = sleep(config.shutdownTimeoutSeconds * 1000, false, { ref: false })
+
+    if (!(await Promise.race([drained, timeout]))) {
+        logger.warn("Shutdown timeout reached, closing remaining connections")
+        server.closeAllConnections()
+        await drainUploads()
+    }
+
+    await disconnectDB()
+    logger.info("Shutdown complete")
+}
 
 const startServer = async()=>{
     await connectDB()
-    const port = config.port || 3000
+    await ensureDefaultGenres()
+    await failInterruptedImports()
+    await publishLegacyBooks()
+    const jobs = [
+        startTrashPurgeJob(),
+        startUploadSessionPurgeJob(),
+        startPublishScheduler(),
+    ]
+    const port = config.port
+
+    const server = app.listen(port, ()=>{
+        logger.info({ port }, "The server is listning");
+    })
 
-    app.listen(port, ()=>{
-        console.log("The server is listning at port:", port);
+    // Finished responses must not hold their keep-alive connection open
+    // through the drain
+    server.on('request', (req, res) => {
+        res.once('finish', () => {
+            if (!server.listening) server.closeIdleConnections()
+        })
     })
+
+    let stopping = false
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.on(signal, () => {
+            // A second signal skips the drain
+            if (stopping) process.exit(1)
+            stopping = true
+            shutdown(server, jobs, signal).then(
+                () => process.exit(0),
+                (error) => {
+                    logger.error({ err: error }, "Shutdown failed")
+                    process.exit(1)
+                }
+            )
+        })
+    }
 }
 
-startServer()
\ No newline at end of file
+startServer().catch((error) => {
+    logger.fatal({ err: error }, "Failed to start the server")
+    process.exit(1)
+})
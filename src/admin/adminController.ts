@@ -0,0 +1,290 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  BadRequestError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+} from "../errors/appError.ts";
+import bookModel from "../book/bookModel.ts";
+import { approvalUpdate } from "../book/bookPublishing.ts";
+import { recordRevision } from "../book/bookHistory.ts";
+import type { bookIdSchema } from "../book/bookSchemas.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import userModel from "../user/userModel.ts";
+import type {
+  bookVisibilitySchema,
+  listUsersSchema,
+  moderationQueueSchema,
+  rejectBookSchema,
+  updateUserRoleSchema,
+} from "./adminSchemas.ts";
+import logger from "../observability/logger.ts";
+
+/**
+ * List users (admin only), newest first. Supports page/limit and an optional
+ * role filter. Password hashes are never returned.
+ */
+const listUsers = async (req: Request, res: Response, next: NextFunction) => {
+  const { page, limit, role } = (
+    req as unknown as ValidatedRequest<typeof listUsersSchema>
+  ).query;
+
+  const filter = role ? { role } : {};
+
+  try {
+    const [users, total] = await Promise.all([
+      userModel
+        .find(filter)
+        .select("-password -tokenVersion")
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      userModel.countDocuments(filter),
+    ]);
+
+    res.json({
+      message: "Users fetched sucessfully",
+      users,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list users");
+    return next(new InternalError("Failed to fetch users"));
+  }
+};
+
+/**
+ * Change a user's role (admin only). Admins cannot change their own role, so
+ * there is always at least one admin left.
+ */
+const updateUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { params, body } =
+    req as unknown as ValidatedRequest<typeof updateUserRoleSchema>;
+  const { userId } = params;
+  const { role } = body;
+
+  if (userId === (req as AuthRequest).userId) {
+    return next(new BadRequestError("You cannot change your own role"));
+  }
+
+  try {
+    const user = await userModel
+      .findByIdAndUpdate(userId, { role }, { new: true })
+      .select("-password -tokenVersion");
+
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
+
+    res.json({
+      message: "User role updated sucessfully",
+      user,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to update user role");
+    return next(new InternalError("Failed to update user role"));
+  }
+};
+
+/**
+ * Hide or unhide any book (moderators and admins). Hidden books disappear
+ * from the public listing and detail endpoints but keep their assets.
+ */
+const setBookVisibility = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { params, body } =
+    req as unknown as ValidatedRequest<typeof bookVisibilitySchema>;
+  const { bookId } = params;
+  const { hidden, reason } = body;
+
+  const update = hidden
+    ? {
+        $set: {
+          hidden: true,
+          hiddenBy: (req as AuthRequest).userId,
+          ...(reason ? { hiddenReason: reason } : {}),
+        },
+      }
+    : { $set: { hidden: false }, $unset: { hiddenBy: 1, hiddenReason: 1 } };
+
+  try {
+    const book = await bookModel.findByIdAndUpdate(bookId, update, {
+      new: true,
+    });
+
+    if (!book) {
+      return next(new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" }));
+    }
+
+    res.json({
+      message: hidden ? "Book hidden sucessfully" : "Book unhidden sucessfully",
+      book,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to change book visibility");
+    return next(new InternalError("Failed to change book visibility"));
+  }
+};
+
+/**
+ * Books waiting for review (moderators and admins), oldest submission
+ * first.
+ */
+const listModerationQueue = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { page, limit } = (
+    req as unknown as ValidatedRequest<typeof moderationQueueSchema>
+  ).query;
+  const filter = { status: "pending_review", deletedAt: null };
+
+  try {
+    const [books, total] = await Promise.all([
+      bookModel
+        .find(filter)
+        .sort({ updatedAt: 1, _id: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("author", "name email"),
+      bookModel.countDocuments(filter),
+    ]);
+
+    res.json({
+      message: "Moderation queue fetched sucessfully",
+      books,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list moderation queue");
+    return next(new InternalError("Failed to fetch the moderation queue"));
+  }
+};
+
+/**
+ * Apply a moderation decision to a book that is still pending review and
+ * record it in the book history. Two moderators acting at once cannot both
+ * succeed.
+ */
+const decideBook = async (
+  bookId: string,
+  update: Record<string, unknown>,
+  reviewerId: string
+) => {
+  const book = await bookModel.findOneAndUpdate(
+    { _id: bookId, status: "pending_review", deletedAt: null },
+    { ...update, $inc: { revision: 1 } },
+    { new: true }
+  );
+  if (book) {
+    await recordRevision({
+      book,
+      action: "status",
+      actorId: reviewerId,
+      changes: [
+        { field: "status", from: "pending_review", to: book.status },
+        ...(book.rejectionReason
+          ? [{ field: "rejectionReason", to: book.rejectionReason }]
+          : []),
+      ],
+    });
+    return book;
+  }
+
+  if (!(await bookModel.exists({ _id: bookId, deletedAt: null }))) {
+    throw new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" });
+  }
+  throw new ConflictError("Book is not pending review", {
+    code: "BOOK_NOT_PENDING",
+  });
+};
+
+/**
+ * Approve a book: it is published now, or scheduled for the `publishAt`
+ * its owner asked for.
+ */
+const approveBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { bookId } = (req as ValidatedRequest<typeof bookIdSchema>).params;
+
+  const reviewerId = (req as AuthRequest).userId;
+
+  let book;
+  try {
+    const pending = await bookModel.findById(bookId, "publishAt");
+    book = await decideBook(
+      bookId,
+      approvalUpdate(pending?.publishAt, reviewerId),
+      reviewerId
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      return next(error);
+    }
+    logger.error({ err: error }, "Failed to approve book");
+    return next(new InternalError("Failed to approve the book"));
+  }
+
+  res.json({
+    message:
+      book.status === "scheduled"
+        ? "Book approved and scheduled sucessfully"
+        : "Book approved sucessfully",
+    book,
+  });
+};
+
+/**
+ * Reject a book with a reason its owner can read. The owner may edit the
+ * book and submit it again.
+ */
+const rejectBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, body } =
+    req as unknown as ValidatedRequest<typeof rejectBookSchema>;
+
+  const reviewerId = (req as AuthRequest).userId;
+
+  let book;
+  try {
+    book = await decideBook(
+      params.bookId,
+      {
+        $set: {
+          status: "rejected",
+          rejectionReason: body.reason,
+          reviewedBy: reviewerId,
+          reviewedAt: new Date(),
+        },
+      },
+      reviewerId
+    );
+  } catch (error) {
+    if (error instanceof NotFoundError || error instanceof ConflictError) {
+      return next(error);
+    }
+    logger.error({ err: error }, "Failed to reject book");
+    return next(new InternalError("Failed to reject the book"));
+  }
+
+  res.json({
+    message: "Book rejected sucessfully",
+    book,
+  });
+};
+
+export {
+  listUsers,
+  updateUserRole,
+  setBookVisibility,
+  listModerationQueue,
+  approveBook,
+  rejectBook,
+};
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { deleteBook } from "../book/bookController.ts";
+import { bookSchema } from "../book/bookDocs.ts";
+import {
+  component,
+  message,
+  objectIdString,
+  pagination,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import { userSchema } from "../user/userDocs.ts";
+import {
+  approveBook,
+  listModerationQueue,
+  listUsers,
+  rejectBook,
+  setBookVisibility,
+  updateUserRole,
+} from "./adminController.ts";
+
+const bookResponse = z.object({ message, book: bookSchema });
+
+const pendingBook = component(
+  "PendingBook",
+  bookSchema.extend({
+    author: z.object({
+      _id: objectIdString,
+      name: z.string(),
+      email: z.email(),
+    }),
+  })
+);
+
+export const adminDocs: RouteDocs = new Map([
+  [
+    listUsers,
+    {
+      summary: "List users",
+      description: "Newest first, optionally filtered by role.",
+      response: z.object({ message, users: z.array(userSchema), pagination }),
+    },
+  ],
+  [
+    updateUserRole,
+    {
+      summary: "Change a user's role",
+      description: "Admins cannot change their own role.",
+      response: z.object({ message, user: userSchema }),
+    },
+  ],
+  [
+    setBookVisibility,
+    {
+      summary: "Hide or unhide a book",
+      description: "Hidden books drop out of listings for everyone but staff.",
+      response: bookResponse,
+    },
+  ],
+  [
+    listModerationQueue,
+    {
+      summary: "List books pending review",
+      description: "Longest waiting first.",
+      response: z.object({ message, books: z.array(pendingBook), pagination }),
+    },
+  ],
+  [
+    approveBook,
+    {
+      summary: "Approve a book",
+      description:
+        "Publishes it now, or schedules it when its owner asked for a later `publishAt`.",
+      response: bookResponse,
+      responses: { 409: "The book is not pending review" },
+    },
+  ],
+  [
+    rejectBook,
+    {
+      summary: "Reject a book",
+      description: "The owner sees the reason and may submit the book again.",
+      response: bookResponse,
+      responses: { 409: "The book is not pending review" },
+    },
+  ],
+  [
+    deleteBook,
+    {
+      summary: "Move any book to the trash",
+      description: "Its owner can still restore it until it is purged.",
+      status: 204,
+    },
+  ],
+]);
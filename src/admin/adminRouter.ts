@@ -0,0 +1,25 @@
+import express from "express";
+import { approveBook, listModerationQueue, listUsers, rejectBook, setBookVisibility, updateUserRole } from "./adminController.ts";
+import { deleteBook } from "../book/bookController.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import authorize from "../middlewares/authorize.ts";
+import validate from "../middlewares/validate.ts";
+import { bookIdSchema } from "../book/bookSchemas.ts";
+import { bookVisibilitySchema, listUsersSchema, moderationQueueSchema, rejectBookSchema, updateUserRoleSchema } from "./adminSchemas.ts";
+
+const adminRouter = express.Router();
+
+adminRouter.use(authenticate);
+
+//Routes
+
+adminRouter.get("/users", authorize("admin"), validate(listUsersSchema), listUsers);
+adminRouter.patch("/users/:userId/role", authorize("admin"), validate(updateUserRoleSchema), updateUserRole);
+
+adminRouter.patch("/books/:bookId/visibility", authorize("moderator", "admin"), validate(bookVisibilitySchema), setBookVisibility);
+adminRouter.get("/moderation", authorize("moderator", "admin"), validate(moderationQueueSchema), listModerationQueue);
+adminRouter.post("/books/:bookId/approve", authorize("moderator", "admin"), validate(bookIdSchema), approveBook);
+adminRouter.post("/books/:bookId/reject", authorize("moderator", "admin"), validate(rejectBookSchema), rejectBook);
+adminRouter.delete("/books/:bookId", authorize("moderator", "admin"), validate(bookIdSchema), deleteBook);
+
+export default adminRouter;
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+import { USER_ROLES } from "../user/userTypes.ts";
+
+export const listUsersSchema = {
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    role: z.enum(USER_ROLES).optional(),
+  }),
+};
+
+export const updateUserRoleSchema = {
+  params: z.object({ userId: objectId("userId") }),
+  body: z.object({ role: z.enum(USER_ROLES) }),
+};
+
+export const moderationQueueSchema = {
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+};
+
+export const rejectBookSchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+  body: z.object({
+    // Shown to the author, so it should say what to fix
+    reason: z.string().trim().min(1, "reason is required").max(1000),
+  }),
+};
+
+export const bookVisibilitySchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+  body: z.object({
+    hidden: z.boolean(),
+    reason: z.string().trim().max(500).optional(),
+  }),
+};
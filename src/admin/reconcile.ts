@@ -0,0 +1,205 @@
+import bookModel from "../book/bookModel.ts";
+import bookRevisionModel from "../book/bookRevisionModel.ts";
+import type { Book } from "../book/bookTypes.ts";
+import { snapshotAssets } from "../book/bookHistory.ts";
+import {
+  legacyCoverAsset,
+  legacyFileAsset,
+  type LegacyBookAssets,
+} from "../book/legacyBook.ts";
+import userModel from "../user/userModel.ts";
+import storage from "../storage/storage.ts";
+import type { StorageResourceType } from "../storage/storageTypes.ts";
+import logger from "../observability/logger.ts";
+
+// Assets younger than this may belong to an upload that has not been saved
+// yet, so they are never reported as orphaned
+const UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+export interface OrphanedAsset {
+  assetId: string;
+  resourceType: StorageResourceType;
+  bytes: number;
+}
+
+export interface DanglingReference {
+  collection: "Books" | "Users";
+  documentId: string;
+  field: string;
+  assetId: string;
+}
+
+export interface ReconcileReport {
+  storage: string;
+  orphanedAssets: OrphanedAsset[];
+  danglingReferences: DanglingReference[];
+  // Set when run with `fix`
+  deletedAssets: number;
+  clearedReferences: number;
+}
+
+interface ManagedFolder {
+  folder: string;
+  resourceType: StorageResourceType;
+}
+
+const MANAGED_FOLDERS: ManagedFolder[] = [
+  { folder: "book-covers", resourceType: "image" },
+  { folder: "book-files", resourceType: "raw" },
+  { folder: "avatars", resourceType: "image" },
+];
+
+const refKey = (resourceType: StorageResourceType, assetId: string) =>
+  `${resourceType}:${assetId}`;
+
+/**
+ * Compare what storage holds with what the database points at:
+ *  - orphaned assets: stored in a managed folder but referenced by no book,
+ *    book revision or user (e.g. left behind by a crashed upload)
+ *  - dangling references: a book or user pointing at an asset that no
+ *    longer exists
+ * With `fix`, orphaned assets are deleted and dangling avatars cleared.
+ * Dangling book references are only reported; a book without its cover or
+ * file needs a new upload, not a silent edit.
+ */
+export const reconcileAssets = async ({ fix = false } = {}) => {
+  const report: ReconcileReport = {
+    storage: storage.name,
+    orphanedAssets: [],
+    danglingReferences: [],
+    deletedAssets: 0,
+    clearedReferences: 0,
+  };
+
+  // 1. Everything the database references, trashed books included
+  const references: Array<
+    DanglingReference & { resourceType: StorageResourceType }
+  > = [];
+
+  // Books not migrated yet have no cover variants or renditions, only the
+  // legacy top-level cover and file
+  const books = await bookModel
+    .find(
+      {},
+      "cover.variants files.assetId files.format coverImage coverImageId file fileId"
+    )
+    .lean<
+      Array<
+        Pick<Book, "_id"> & Partial<Pick<Book, "cover" | "files">> & LegacyBookAssets
+      >
+    >();
+  for (const book of books) {
+    for (const [name, variant] of Object.entries(book.cover?.variants ?? {})) {
+      references.push({
+        collection: "Books",
+        documentId: String(book._id),
+        field: `cover.variants.${name}`,
+        assetId: variant.assetId,
+        resourceType: "image",
+      });
+    }
+    for (const file of book.files ?? []) {
+      references.push({
+        collection: "Books",
+        documentId: String(book._id),
+        field: `files.${file.format}`,
+        assetId: file.assetId,
+        resourceType: "raw",
+      });
+    }
+    for (const [field, asset] of [
+      ["coverImageId", legacyCoverAsset(book)],
+      ["fileId", legacyFileAsset(book)],
+    ] as const) {
+      if (!asset) continue;
+      references.push({
+        collection: "Books",
+        documentId: String(book._id),
+        field,
+        ...asset,
+      });
+    }
+  }
+
+  const users = await userModel
+    .find({ avatarId: { $exists: true, $ne: null } }, "avatarId")
+    .lean();
+  for (const user of users) {
+    references.push({
+      collection: "Users",
+      documentId: String(user._id),
+      field: "avatarId",
+      assetId: user.avatarId as string,
+      resourceType: "image",
+    });
+  }
+
+  const referenced = new Set(
+    references.map((ref) => refKey(ref.resourceType, ref.assetId))
+  );
+
+  // Covers and files replaced by later revisions are kept for rollbacks;
+  // they are not orphans, though nothing live points at them. Revisions of
+  // purged books no longer protect anything.
+  const bookIds = new Set(books.map((book) => String(book._id)));
+  for await (const { book, before, after } of bookRevisionModel
+    .find({}, "book before after")
+    .lean()
+    .cursor()) {
+    if (!bookIds.has(String(book))) continue;
+    for (const asset of [
+      ...snapshotAssets(before ?? {}),
+      ...snapshotAssets(after),
+    ]) {
+      referenced.add(refKey(asset.resourceType, asset.assetId));
+    }
+  }
+
+  // 2. Everything storage holds in the folders this app writes to
+  const stored = new Set<string>();
+  const cutoff = Date.now() - UPLOAD_GRACE_MS;
+
+  for (const { folder, resourceType } of MANAGED_FOLDERS) {
+    for (const asset of await storage.list(folder, resourceType)) {
+      stored.add(refKey(resourceType, asset.assetId));
+
+      const isRecent = asset.createdAt && asset.createdAt.getTime() > cutoff;
+      if (!referenced.has(refKey(resourceType, asset.assetId)) && !isRecent) {
+        report.orphanedAssets.push({
+          assetId: asset.assetId,
+          resourceType,
+          bytes: asset.bytes,
+        });
+      }
+    }
+  }
+
+  for (const { resourceType, ...ref } of references) {
+    if (!stored.has(refKey(resourceType, ref.assetId))) {
+      report.danglingReferences.push(ref);
+    }
+  }
+
+  if (!fix) return report;
+
+  // 3. Repair what can be repaired safely
+  for (const asset of report.orphanedAssets) {
+    try {
+      await storage.delete(asset.assetId, asset.resourceType);
+      report.deletedAssets += 1;
+    } catch (error) {
+      logger.error({ err: error }, `Failed to delete orphaned asset ${asset.assetId}`);
+    }
+  }
+
+  for (const ref of report.danglingReferences) {
+    if (ref.collection !== "Users") continue;
+    await userModel.updateOne(
+      { _id: ref.documentId, avatarId: ref.assetId },
+      { $unset: { avatar: 1, avatarId: 1 } }
+    );
+    report.clearedReferences += 1;
+  }
+
+  return report;
+};
@@ -3,8 +3,22 @@ import cors from 'cors'
 import globalErrorHandler from "./middlewares/globalErrorHandler.ts";
 import userRouter from "./user/userRouter.ts";
 import bookRouter from "./book/bookRouter.ts";
+import adminRouter from "./admin/adminRouter.ts";
+import genreRouter from "./genre/genreRouter.ts";
+import storageRouter from "./storage/storageRouter.ts";
+import uploadSessionRouter from "./upload/uploadSessionRouter.ts";
+import healthRouter from "./health/healthRouter.ts";
+import docsRouter from "./docs/docsRouter.ts";
+import { config } from "./config/config.ts";
+import requestId from "./middlewares/requestId.ts";
+import accessLog from "./middlewares/accessLog.ts";
+import { metricsHandler } from "./observability/metrics.ts";
 
 const app = express();
+// Behind a load balancer req.ip is the proxy's address unless it is trusted
+app.set("trust proxy", config.trustProxy)
+app.use(requestId)
+app.use(accessLog)
 app.use(cors())
 app.use(express.json())
 
@@ -15,9 +29,24 @@ app.get("/", (req, res) => {
   });
 });
 
+// Prometheus scrape endpoint and liveness/readiness probes
+app.get("/metrics", metricsHandler)
+app.use(healthRouter)
+
 //Routes
 app.use("/api/users",userRouter)
 app.use("/api/books", bookRouter)
+app.use("/api/admin", adminRouter)
+app.use("/api/genres", genreRouter)
+app.use("/api/uploads", uploadSessionRouter)
+
+// OpenAPI document and interactive docs
+app.use("/api/docs", docsRouter)
+
+// Local storage driver serves its own assets (dev/CI only)
+if (config.storageDriver === "local") {
+  app.use("/storage", storageRouter)
+}
 
 
 //Global error handler
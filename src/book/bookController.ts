@@ -1,430 +1,789 @@
 import type { NextFunction, Request, Response } from "express";
-import createHttpError from "http-errors";
-import cloudinary from "../config/cloudinary.ts";
-import path from "node:path";
-import { dirname } from "node:path";
-import { fileURLToPath } from "node:url";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalError,
+  NotFoundError,
+  UpstreamError,
+} from "../errors/appError.ts";
 import bookModel from "./bookModel.ts";
-import fs from "node:fs";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import downloadModel from "./downloadModel.ts";
+import { config } from "../config/config.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import mongoose from "mongoose";
+import type { BookListPagination, BookSortField } from "./bookTypes.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import type {
+  downloadBookSchema,
+  bookFileSchema,
+  bookIdSchema,
+  createBookSchema,
+  bookHistorySchema,
+  listBooksSchema,
+  myBooksSchema,
+  rollbackBookSchema,
+  bookStatusSchema,
+  updateBookSchema,
+} from "./bookSchemas.ts";
+import storage from "../storage/storage.ts";
+import { cleanupUploadedFiles } from "../upload/uploadMiddleware.ts";
+import type { UploadedFiles } from "../upload/uploadTypes.ts";
+import { canManageBook, isBookOwner, isStaff } from "../middlewares/authorize.ts";
+import {
+  createBookRecord,
+  removeBookFile,
+  restoreTrashedBook,
+  trashBook,
+  updateBookRecord,
+} from "./bookService.ts";
+import { assertGenreExists, genreWithChildren } from "../genre/genreController.ts";
+import { changeBookStatus, isPubliclyViewable } from "./bookPublishing.ts";
+import { rollbackBook, toHistoryEntry } from "./bookHistory.ts";
+import bookRevisionModel from "./bookRevisionModel.ts";
+import logger from "../observability/logger.ts";
 
 /**
  * Create a book:
- *  - validate request
- *  - upload cover image and book file to Cloudinary
- *  - store book metadata in DB
+ *  - check the uploaded files are present
+ *  - hand off to the book service, which uploads every asset and stores the
+ *    document, rolling the uploads back if anything fails
  *  - remove temporary files
- *
- * Proper, granular try/catch blocks are used so we can return meaningful errors
- * and ensure temporary files are removed where possible.
  */
 const createBook = async (req: Request, res: Response, next: NextFunction) => {
-  // Validate body + files early
-  const { title, genre } = req.body;
-  const files = req.files as
-    | { [filename: string]: Express.Multer.File[] }
-    | undefined;
+  // Body is validated by validate(createBookSchema); check files early
+  const metadata = (req as ValidatedRequest<typeof createBookSchema>).body;
+  const files = req.files as UploadedFiles | undefined;
+
+  const coverFile = files?.coverImage?.[0];
+  const bookFiles = files?.file ?? [];
 
-  if (!title || !genre) {
+  if (!coverFile || !bookFiles.length) {
+    await cleanupUploadedFiles(req);
     return next(
-      createHttpError(400, "Missing required fields: title or genre")
+      new BadRequestError("Missing uploaded files: coverImage and/or file")
     );
   }
 
-  if (!files || !files.coverImage || !files.file) {
+  let book;
+  try {
+    await assertGenreExists(metadata.genre);
+    book = await createBookRecord({
+      metadata,
+      author: (req as AuthRequest).userId,
+      coverFile,
+      bookFiles,
+    });
+  } catch (err) {
+    if (err instanceof AppError) return next(err);
+    logger.error({ err }, "Unexpected error in createBook");
     return next(
-      createHttpError(400, "Missing uploaded files: coverImage and/or file")
+      new InternalError("Unexpected error while uploading the files")
     );
+  } finally {
+    // Remove temporary files (best-effort)
+    await cleanupUploadedFiles(req);
   }
 
-  const coverFile = files.coverImage?.[0];
-  const bookFile = files.file?.[0];
-
-  if (!coverFile || !bookFile) {
-    return next(createHttpError(400, "Uploaded files are invalid"));
-  }
-
-  // Resolve temp paths
-  const coverFilename = coverFile.filename;
-  const bookFilename = bookFile.filename;
-
-  const coverFilePath = path.resolve(
-    __dirname,
-    "../../public/data/uploads",
-    coverFilename
-  );
-  const bookFilePath = path.resolve(
-    __dirname,
-    "../../public/data/uploads",
-    bookFilename
-  );
-
-  // Helper to attempt deleting temp files (best-effort)
-  const cleanupTempFiles = async () => {
-    try {
-      await fs.promises.unlink(coverFilePath).catch(() => {});
-    } catch {
-      /* ignore */
-    }
-    try {
-      await fs.promises.unlink(bookFilePath).catch(() => {});
-    } catch {
-      /* ignore */
-    }
-  };
-
-  // Determine cover image format (last part after '/')
-  const coverImageMimeType = coverFile.mimetype?.split("/").at(-1) ?? undefined;
+  return res.status(201).json({
+    // Kept for older clients, same as book._id
+    id: book._id,
+    message: "Book uploaded successfully",
+    formats: book.files.map((r) => r.format),
+    // New books are drafts until submitted for review
+    status: book.status,
+    book,
+  });
+};
 
-  let uploadedCoverResult: { secure_url?: string } | undefined;
-  let uploadedBookResult: { secure_url?: string } | undefined;
-  let insertedBook: any;
+/**
+ * Update a book:
+ *  - only the owner may update it
+ *  - optionally upload a new cover and/or book files; the replaced assets
+ *    are kept for rollbacks, see book/bookHistory.ts
+ *  - an approved book goes back to review, unless the owner is staff
+ *  - cleanup temp files
+ */
+const updateBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof updateBookSchema
+  >;
+  const { bookId } = params;
+  const files = (req.files ?? {}) as UploadedFiles;
 
   try {
-    // Upload cover image
+    // 1. Check if the book exists
+    let book;
     try {
-      uploadedCoverResult = await cloudinary.uploader.upload(coverFilePath, {
-        filename_override: coverFilename,
-        folder: "book-covers",
-        format: coverImageMimeType,
-      });
+      book = await bookModel.findOne({ _id: bookId, deletedAt: null });
     } catch (err) {
-      // Attempt cleanup then forward a helpful error
-      await cleanupTempFiles();
-      console.error("Cloudinary cover upload error:", err);
-      return next(
-        createHttpError(502, "Failed to upload cover image to Cloudinary")
-      );
+      logger.error({ err }, "DB findOne error");
+      return next(new InternalError("Failed to fetch book from database"));
     }
 
-    // Upload book file (raw resource_type)
-    try {
-      uploadedBookResult = await cloudinary.uploader.upload(bookFilePath, {
-        resource_type: "raw",
-        filename_override: bookFilename,
-        folder: "book-files",
-        format: "pdf",
-      });
-    } catch (err) {
-      // cleanup local temp files and return error
-      await cleanupTempFiles();
-      console.error("Cloudinary book upload error:", err);
-      return next(
-        createHttpError(502, "Failed to upload book file to Cloudinary")
-      );
+    if (!book) {
+      return next(new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" }));
     }
 
-    // Ensure we have secure URLs
-    if (!uploadedCoverResult?.secure_url || !uploadedBookResult?.secure_url) {
-      await cleanupTempFiles();
-      console.error("Cloudinary did not return secure_url for uploads");
-      return next(
-        createHttpError(502, "Cloudinary upload did not return a secure URL")
-      );
+    // 2. Check the user owns the book
+    if (!isBookOwner(req, book)) {
+      return next(new ForbiddenError("Unauthorized access"));
     }
 
-    // Insert to database
+    // 3. Upload replacements and update the document
+    let updated;
     try {
-      const doc = {
-        title,
-        author:
-          (req as unknown as { userId?: string }).userId ??
-          "693adf9bd0f376cedbc61efd",
-        genre,
-        coverImage: uploadedCoverResult.secure_url,
-        file: uploadedBookResult.secure_url,
-      };
-
-      insertedBook = await bookModel.insertOne(doc);
-      // insertedBook may be the InsertOneResult; adjust based on your driver
-      if (!insertedBook?.acknowledged && !insertedBook?._id) {
-        // Defensive: if insert did not produce an id, treat as error
-        console.error(
-          "Database insert returned unexpected result:",
-          insertedBook
-        );
-        await cleanupTempFiles();
-        return next(createHttpError(500, "Failed to save book to database"));
-      }
+      if (body.genre) await assertGenreExists(body.genre);
+      updated = await updateBookRecord(book, {
+        metadata: body,
+        coverFile: files.coverImage?.[0],
+        bookFiles: files.file ?? [],
+        actorId: (req as AuthRequest).userId,
+        actorIsStaff: isStaff((req as AuthRequest).role),
+      });
     } catch (err) {
-      await cleanupTempFiles();
-      console.error("Database insert error:", err);
-      return next(createHttpError(500, "Error while saving book to database"));
+      if (err instanceof AppError) return next(err);
+      logger.error({ err }, "Unexpected error in updateBook");
+      return next(
+        new InternalError("Unexpected error while updating the book")
+      );
     }
 
-    // Remove temporary files (best-effort)
-    try {
-      await fs.promises.unlink(coverFilePath).catch(() => {});
-      await fs.promises.unlink(bookFilePath).catch(() => {});
-    } catch (err) {
-      // Log but don't fail the request if cleanup failed
-      console.warn("Failed to delete temporary upload files:", err);
-    }
+    return res.status(200).json({
+      message: "File updated successfully",
+      id: bookId,
+      book: updated,
+    });
+  } finally {
+    // Cleanup temporary files (best-effort)
+    await cleanupUploadedFiles(req);
+  }
+};
 
-    // Respond with created resource id (normalize to _id if present)
-    const createdId = insertedBook?._id ?? insertedBook?.insertedId ?? null;
+const encodeCursor = (value: unknown, id: unknown) =>
+  Buffer.from(JSON.stringify({ v: value, id: String(id) })).toString(
+    "base64url"
+  );
 
-    return res.status(201).json({
-      id: createdId,
-      message: "Book uploaded successfully",
-    });
-  } catch (err) {
-    // Catch-all for unexpected errors
-    console.error("Unexpected error in createBook:", err);
-    // Attempt cleanup of temporary files before returning
-    await cleanupTempFiles();
-    return next(
-      createHttpError(500, "Unexpected error while uploading the files")
+const decodeCursor = (cursor: string, sortField: BookSortField) => {
+  try {
+    const { v, id } = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
     );
+    if (!mongoose.isValidObjectId(id) || v === undefined) return null;
+    return {
+      value:
+        sortField === "createdAt"
+          ? new Date(v)
+          : sortField === "title"
+            ? String(v)
+            : Number(v),
+      id: new mongoose.Types.ObjectId(id as string),
+    };
+  } catch {
+    return null;
   }
 };
 
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
 /**
- * Update a book:
- *  - validate request + authentication
- *  - optionally upload new cover and/or book file
- *  - update DB record
- *  - cleanup temp files
+ * List books:
+ *  - page/limit pagination, or keyset pagination via `cursor`
+ *  - filters: genre (with sub-genres), author (uploader), authorName,
+ *    language, tags, series, isbn, yearFrom/yearTo; full-text search: q
+ *  - sort: createdAt | title | ratingAverage | reviewCount (prefix with -
+ *    for descending)
  */
-const updateBook = async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { title, genre } = req.body;
-    const bookId = req.params.bookId;
-
-    if (!bookId) {
-      return next(createHttpError(400, "bookId is required in params"));
-    }
-
-    const files = (req.files || {}) as
-      | { [filename: string]: Express.Multer.File[] }
-      | undefined;
-
-    // 1. Check if the book exists
-    let book;
+const listBooks = async (req: Request, res: Response, next: NextFunction) => {
+  const {
+    page,
+    limit,
+    cursor,
+    genre,
+    author,
+    authorName,
+    language,
+    tags,
+    series,
+    isbn,
+    yearFrom,
+    yearTo,
+    q,
+    sortField,
+    sortDirection,
+  } = (req as unknown as ValidatedRequest<typeof listBooksSchema>).query;
+
+  // 1. Build the base filter (used for the total count too)
+  const filter: Record<string, unknown> = {
+    status: "published",
+    hidden: { $ne: true },
+    deletedAt: null,
+  };
+  if (author) filter.author = author;
+  if (authorName) {
+    filter.authors = new RegExp(`^${escapeRegex(authorName)}$`, "i");
+  }
+  if (language) filter.language = language;
+  if (tags?.length) filter.tags = { $all: tags };
+  if (series) filter["series.name"] = series;
+  if (isbn) filter.isbn = isbn;
+  if (yearFrom !== undefined || yearTo !== undefined) {
+    filter.publicationYear = {
+      ...(yearFrom !== undefined ? { $gte: yearFrom } : {}),
+      ...(yearTo !== undefined ? { $lte: yearTo } : {}),
+    };
+  }
+  if (q) filter.$text = { $search: q };
+  if (genre) {
     try {
-      book = await bookModel.findOne({ _id: bookId });
-    } catch (err) {
-      console.error("DB findOne error:", err);
-      return next(createHttpError(500, "Failed to fetch book from database"));
-    }
-
-    if (!book) {
-      return next(createHttpError(404, "Book not found"));
-    }
-
-    // 2. Check if user is authenticated & authorized
-    const userId = (req as unknown as { userId?: string }).userId;
-    if (!userId) {
-      return next(createHttpError(401, "Unauthenticated"));
+      filter.genre = { $in: await genreWithChildren(genre) };
+    } catch (error) {
+      logger.error({ err: error }, "Failed to resolve genre filter");
+      return next(new InternalError("Failed to fetch books"));
     }
+  }
 
-    // Normalize author to string for comparison
-    const bookAuthorId =
-      typeof book.author === "string"
-        ? book.author
-        : (book.author?._id ?? book.author)?.toString?.();
-
-    if (bookAuthorId !== userId) {
-      return next(createHttpError(403, "Unauthorized access"));
+  // 2. Apply the cursor on top of the base filter
+  let pageFilter = filter;
+  if (cursor) {
+    const decoded = decodeCursor(cursor, sortField);
+    if (!decoded) {
+      return next(new BadRequestError("cursor is invalid"));
     }
-
-    // Helpers for file paths and cleanup
-    const uploadedTempPaths: string[] = [];
-    const tryUnlink = async (p?: string) => {
-      if (!p) return;
-      try {
-        await fs.promises.unlink(p).catch(() => {});
-      } catch {
-        /* ignore */
-      }
+    const op = sortDirection === 1 ? "$gt" : "$lt";
+    pageFilter = {
+      ...filter,
+      $or: [
+        { [sortField]: { [op]: decoded.value } },
+        { [sortField]: decoded.value, _id: { [op]: decoded.id } },
+      ],
     };
+  }
 
-    // 3. Optionally upload new cover image
-    let coverImageUrl = "";
-    if (files?.coverImage && files.coverImage[0]) {
-      const fileName = files.coverImage[0].filename;
-      const coverMimeType = files.coverImage[0].mimetype.split("/").at(-1);
-      const filePath = path.resolve(
-        __dirname,
-        "../../public/data/uploads/",
-        fileName
-      );
+  try {
+    const query = bookModel
+      .find(pageFilter)
+      .sort({ [sortField]: sortDirection, _id: sortDirection })
+      .limit(limit);
 
-      // remember to cleanup this temp file later
-      uploadedTempPaths.push(filePath);
-
-      try {
-        const uploadCoverImage = await cloudinary.uploader.upload(filePath, {
-          filename_override: fileName,
-          folder: "book-covers",
-          format: coverMimeType,
-        });
-        coverImageUrl = uploadCoverImage.secure_url;
-      } catch (err) {
-        console.error("Cover upload error:", err);
-        // cleanup temp files we created for this request
-        await Promise.all(uploadedTempPaths.map((p) => tryUnlink(p)));
-        return next(createHttpError(502, "Failed to upload cover image"));
-      }
+    if (!cursor) {
+      query.skip((page - 1) * limit);
     }
 
-    // 4. Optionally upload new book file
-    let bookFileUrl = "";
-    if (files?.file && files.file[0]) {
-      const bookfile = files.file[0].filename;
-      const bookFilePath = path.resolve(
-        __dirname,
-        "../../public/data/uploads",
-        bookfile
+    const [books, total] = await Promise.all([
+      query.exec(),
+      bookModel.countDocuments(filter),
+    ]);
+
+    // 3. Build next-page links, preserving the caller's other params
+    const last = books.at(-1);
+    const hasMore = cursor
+      ? books.length === limit
+      : (page - 1) * limit + books.length < total;
+
+    const nextCursor =
+      hasMore && last ? encodeCursor(last[sortField], last._id) : null;
+
+    let nextLink: string | null = null;
+    if (hasMore) {
+      // req.query holds parsed values, so start from the raw URL
+      const url = new URL(
+        req.originalUrl,
+        `${req.protocol}://${req.get("host")}`
       );
-      const bookMineType = "pdf";
-
-      // remember to cleanup this temp file later
-      uploadedTempPaths.push(bookFilePath);
-
-      try {
-        const uploadBookFile = await cloudinary.uploader.upload(bookFilePath, {
-          filename_override: bookfile,
-          folder: "book-files",
-          resource_type: "raw",
-          format: bookMineType,
-        });
-        bookFileUrl = uploadBookFile.secure_url;
-      } catch (err) {
-        console.error("Book file upload error:", err);
-        await Promise.all(uploadedTempPaths.map((p) => tryUnlink(p)));
-        return next(createHttpError(502, "Failed to upload book file"));
+      if (cursor) {
+        url.searchParams.set("cursor", nextCursor as string);
+      } else {
+        url.searchParams.set("page", String(page + 1));
       }
+      nextLink = url.toString();
     }
 
-    // 5. Update in the database
-    let updatedDoc;
-    try {
-      const updatePayload: any = {
-        title: title ?? book.title,
-        genre: genre ?? book.genre,
-        coverImage: coverImageUrl ? coverImageUrl : book.coverImage,
-        file: bookFileUrl ? bookFileUrl : book.file,
-      };
-
-      updatedDoc = await bookModel.findOneAndUpdate(
-        { _id: bookId },
-        updatePayload
-      );
+    const pagination: BookListPagination = {
+      total,
+      page: cursor ? null : page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      nextCursor,
+      next: nextLink,
+    };
 
-      if (!updatedDoc) {
-        // Depending on driver, findOneAndUpdate may return null or the previous doc.
-        // Adjust this check to your driver behavior.
-        console.error("Book update returned falsy result:", updatedDoc);
-        await Promise.all(uploadedTempPaths.map((p) => tryUnlink(p)));
-        return next(createHttpError(500, "Failed to update book"));
-      }
-    } catch (err) {
-      console.error("Database update error:", err);
-      await Promise.all(uploadedTempPaths.map((p) => tryUnlink(p)));
+    res.status(200).json({
+      message: "Books fetch sucessfully",
+      books,
+      pagination,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list books");
+    return next(new InternalError("Failed to fetch books"));
+  }
+};
+
+/**
+ * Fetch a book. Published and unlisted books are open to anyone; drafts,
+ * books under review and rejected books only to their owner and staff, who
+ * also see the moderation outcome.
+ */
+const getsingleBook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { bookId } = (req as ValidatedRequest<typeof bookIdSchema>).params;
+
+  try {
+    const book = await bookModel.findOne({ _id: bookId, deletedAt: null });
+    if (!book || (!isPubliclyViewable(book) && !canManageBook(req, book))) {
       return next(
-        createHttpError(500, "Error while updating book in database")
+        new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
       );
     }
+    res.json({
+      message: "Book fetched sucessfullly",
+      book,
+      // Lets clients pick which rendition to download
+      formats: book.files.map(({ format, bytes, pageCount, checksum }) => ({
+        format,
+        bytes,
+        pageCount,
+        checksum,
+      })),
+    });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
+};
 
-    // Cleanup temporary files (best-effort)
-    try {
-      await Promise.all(uploadedTempPaths.map((p) => tryUnlink(p)));
-    } catch (err) {
-      console.warn("Failed to delete temporary files after update:", err);
+/**
+ * Move a book to the trash. It disappears from listings and lookups but
+ * keeps its assets until restored or purged after `trashRetentionDays`.
+ */
+const deleteBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { bookId } = (req as ValidatedRequest<typeof bookIdSchema>).params;
+  let book;
+  try {
+    book = await bookModel.findOne({ _id: bookId, deletedAt: null });
+    if (!book) {
+      return next(
+        new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+      );
     }
+  } catch (error) {
+    return next(new InternalError("Error while deleting the book"));
+  }
 
-    // Respond with updated id (normalize shape depending on your DB driver)
-    const returnedId = updatedDoc?._id ?? updatedDoc?.value?._id ?? bookId;
+  // Owners can delete their own books, moderators/admins can delete any
+  if (!canManageBook(req, book)) {
+    return next(new ForbiddenError("You are not allowed to delete this book"));
+  }
 
-    return res.status(200).json({
-      message: "File updated successfully",
-      id: returnedId,
-    });
-  } catch (err) {
-    console.error("Unexpected error in updateBook:", err);
-    return next(
-      createHttpError(500, "Unexpected error while updating the book")
-    );
+  try {
+    await trashBook(bookId, (req as AuthRequest).userId);
+  } catch (error) {
+    return next(new InternalError("Error while deleting the book"));
   }
+  res.status(204).end();
 };
 
-const listBooks = async (req: Request, res: Response, next: NextFunction) => {
+/**
+ * List the current user's books in every status (trashed ones excluded),
+ * most recently changed first, so owners can find their drafts and
+ * rejected books.
+ */
+const listMyBooks = async (req: Request, res: Response, next: NextFunction) => {
+  const { page, limit, status } = (
+    req as unknown as ValidatedRequest<typeof myBooksSchema>
+  ).query;
+
+  const filter = {
+    author: (req as AuthRequest).userId,
+    deletedAt: null,
+    ...(status ? { status } : {}),
+  };
+
   try {
-    let books = await bookModel.find();
+    const [books, total] = await Promise.all([
+      bookModel
+        .find(filter)
+        .sort({ updatedAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      bookModel.countDocuments(filter),
+    ]);
 
-    res.status(201).json({
+    res.json({
       message: "Books fetch sucessfully",
       books,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
     });
   } catch (error) {
-    return next(createHttpError(500, "Failed to fetch books"));
+    logger.error({ err: error }, "Failed to list own books");
+    return next(new InternalError("Failed to fetch books"));
   }
 };
 
-const getsingleBook = async (
+/**
+ * Move a book through the publication workflow (owner only):
+ *  - submit a draft or rejected book for review, optionally with a future
+ *    `publishAt`; staff skip the review
+ *  - withdraw it back to draft
+ *  - unlist or re-list a published book
+ * See book/bookPublishing.ts for the allowed transitions.
+ */
+const updateBookStatus = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  const bookId = req.params.bookId;
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof bookStatusSchema
+  >;
+  const { userId, role } = req as AuthRequest;
+
+  let book;
+  try {
+    book = await bookModel.findOne({ _id: params.bookId, deletedAt: null });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
+
+  if (!book) {
+    return next(new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" }));
+  }
 
-  if (!bookId) {
-    return next(createHttpError(401, "Book id is invalid/not found"));
+  if (!isBookOwner(req, book)) {
+    return next(new ForbiddenError("Unauthorized access"));
   }
+
+  let updated;
   try {
-    let book = await bookModel.findOne({ _id: bookId });
-    if (!book) {
-      return next(createHttpError(401, "Book does not exist"));
+    updated = await changeBookStatus(book, body.status, {
+      publishAt: body.publishAt,
+      actorId: userId,
+      actorIsStaff: isStaff(role),
+    });
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to change book status");
+    return next(new InternalError("Error while changing the book status"));
+  }
+
+  if (!updated) {
+    return next(
+      new ConflictError("Book was changed by another request, try again", {
+        code: "BOOK_STATUS_CHANGED",
+      })
+    );
+  }
+
+  res.json({
+    message: "Book status updated sucessfully",
+    book: updated,
+  });
+};
+
+// History is open to the owner and admins
+const canSeeHistory = (req: Request, book: { author: { toString(): string } }) =>
+  isBookOwner(req, book) || (req as AuthRequest).role === "admin";
+
+/**
+ * List a book's audit trail, newest revision first: who changed what and
+ * when. Trashed books keep their history.
+ */
+const listBookHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { params, query } = req as unknown as ValidatedRequest<
+    typeof bookHistorySchema
+  >;
+  const { page, limit } = query;
+
+  try {
+    const book = await bookModel.findById(params.bookId, "author revision");
+    if (!book || !canSeeHistory(req, book)) {
+      return next(
+        new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+      );
     }
+
+    const filter = { book: params.bookId };
+    const [revisions, total] = await Promise.all([
+      bookRevisionModel
+        .find(filter)
+        .sort({ revision: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate("actor", "name")
+        .lean(),
+      bookRevisionModel.countDocuments(filter),
+    ]);
+
     res.json({
-      message: "Book fetched sucessfullly",
-      book,
+      message: "Book history fetched sucessfully",
+      revision: book.revision,
+      history: revisions.map(toHistoryEntry),
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
     });
   } catch (error) {
-    return next(createHttpError(401, "Error while fetching the book"));
+    logger.error({ err: error }, "Failed to list book history");
+    return next(new InternalError("Failed to fetch the book history"));
   }
 };
 
-const deleteBook = async (req: Request, res: Response, next: NextFunction) => {
-  let bookId = req.params.bookId;
-  let userId = req.userId;
+/**
+ * Roll a book's metadata, cover and files back to a previous revision
+ * (owner or admin). The rollback becomes a new revision itself.
+ */
+const rollbackBookRevision = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { bookId, revision } = (
+    req as unknown as ValidatedRequest<typeof rollbackBookSchema>
+  ).params;
+
   let book;
   try {
-    book = await bookModel.findOne({ _id: bookId });
-    if (!book) {
-      return next(createHttpError(401, "Book does not exist"));
-    }
+    book = await bookModel.findOne({ _id: bookId, deletedAt: null });
   } catch (error) {
-    return next(createHttpError(401, "Error while deleting the book"));
+    return next(new InternalError("Error while fetching the book"));
+  }
+
+  if (!book) {
+    return next(new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" }));
+  }
+
+  if (!canSeeHistory(req, book)) {
+    return next(new ForbiddenError("Unauthorized access"));
   }
 
-  if (book.author.toString() !== userId) {
-    return next(createHttpError(401, "Unauthorized"));
+  try {
+    book = await rollbackBook(book, revision, (req as AuthRequest).userId);
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to roll back book");
+    return next(new InternalError("Error while rolling back the book"));
   }
 
+  res.json({
+    message: `Book rolled back to revision ${revision} sucessfully`,
+    book,
+  });
+};
+
+const purgeDateOf = (deletedAt: Date) =>
+  new Date(deletedAt.getTime() + config.trashRetentionDays * 24 * 60 * 60 * 1000);
+
+/**
+ * List the current user's trashed books with the date each one will be
+ * purged.
+ */
+const listTrash = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const coverfileSplits = book.coverImage.split("/")
-    const coverImagePublicId = coverfileSplits.at(-2)+ "/"+(coverfileSplits.at(-1).split(".").at(-2))
+    const books = await bookModel
+      .find({ author: (req as AuthRequest).userId, deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 });
+
+    res.json({
+      message: "Trash fetched sucessfully",
+      books: books.map((book) => ({
+        ...book.toJSON(),
+        purgeAt: purgeDateOf(book.deletedAt as Date),
+      })),
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list trash");
+    return next(new InternalError("Failed to fetch trash"));
+  }
+};
 
-    const bookfileSplits = book.file.split('/')
+const restoreBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { bookId } = (req as ValidatedRequest<typeof bookIdSchema>).params;
+
+  let book;
+  try {
+    book = await bookModel.findOne({ _id: bookId, deletedAt: { $ne: null } });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
 
-    const bookFilePublicId = bookfileSplits.at(-2)+"/"+bookfileSplits.at(-1)
+  if (!book) {
+    return next(
+      new NotFoundError("Book is not in the trash", { code: "BOOK_NOT_FOUND" })
+    );
+  }
 
-    await cloudinary.uploader.destroy(coverImagePublicId)
-    await cloudinary.uploader.destroy(bookFilePublicId, {
-      resource_type:"raw"
-    })
+  if (!canManageBook(req, book)) {
+    return next(new ForbiddenError("You are not allowed to restore this book"));
+  }
 
-    await bookModel.deleteOne({ _id: bookId });
+  try {
+    book = await restoreTrashedBook(book, (req as AuthRequest).userId);
   } catch (error) {
-    return next(createHttpError(401, "Error while deleting the book"));
+    logger.error({ err: error }, "Failed to restore book");
+    return next(new InternalError("Error while restoring the book"));
   }
-  res.status(204).json({
-    message: "Book deleted sucessfullly",
+
+  res.json({
+    message: "Book restored sucessfully",
+    book,
   });
 };
 
-export { createBook, updateBook, listBooks, getsingleBook, deleteBook };
+/**
+ * Download a book file:
+ *  - hidden and unpublished books are only downloadable by their owner and
+ *    staff
+ *  - `format` picks the rendition, defaulting to the first one uploaded
+ *  - records a download event, then redirects to a short-lived signed URL
+ *    (or returns it as JSON when the client asks for application/json)
+ */
+const downloadBook = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, query } = req as unknown as ValidatedRequest<
+    typeof downloadBookSchema
+  >;
+  const { bookId } = params;
+  const userId = (req as AuthRequest).userId;
+
+  let book;
+  try {
+    book = await bookModel.findOne({ _id: bookId, deletedAt: null });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
+
+  if (!book || (!isPubliclyViewable(book) && !canManageBook(req, book))) {
+    return next(
+      new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+    );
+  }
+
+  const rendition = query.format
+    ? book.files.find((f) => f.format === query.format)
+    : book.files[0];
+  if (!rendition) {
+    return next(
+      new NotFoundError(`Book has no ${query.format} file`, {
+        code: "FORMAT_NOT_FOUND",
+      })
+    );
+  }
+
+  let url: string;
+  try {
+    url = await storage.getSignedUrl(
+      rendition.assetId,
+      "raw",
+      config.downloadUrlTtlSeconds
+    );
+  } catch (error) {
+    logger.error({ err: error }, `${storage.name} signed URL error`);
+    return next(new UpstreamError("Failed to prepare the download"));
+  }
+
+  // Access log; a failure here should not block the reader
+  try {
+    await downloadModel.create({
+      user: userId,
+      book: book._id,
+      format: rendition.format,
+    });
+    await bookModel.updateOne(
+      { _id: book._id },
+      { $inc: { downloadCount: 1 } }
+    );
+  } catch (error) {
+    logger.error({ err: error }, "Failed to record download");
+  }
+
+  if (req.accepts(["html", "json"]) === "json") {
+    return res.json({
+      message: "Download URL created sucessfully",
+      url,
+      format: rendition.format,
+      expiresAt: new Date(Date.now() + config.downloadUrlTtlSeconds * 1000),
+    });
+  }
+
+  res.redirect(302, url);
+};
+
+/**
+ * Remove a single file rendition from a book (owner only). The last
+ * remaining rendition cannot be removed; delete the book instead.
+ */
+const deleteBookFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { bookId, format } = (
+    req as ValidatedRequest<typeof bookFileSchema>
+  ).params;
+
+  let book;
+  try {
+    book = await bookModel.findOne({ _id: bookId, deletedAt: null });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
+
+  if (!book) {
+    return next(
+      new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+    );
+  }
+
+  if (!isBookOwner(req, book)) {
+    return next(new ForbiddenError("Unauthorized access"));
+  }
+
+  const rendition = book.files.find((f) => f.format === format);
+  if (!rendition) {
+    return next(
+      new NotFoundError(`Book has no ${format} file`, {
+        code: "FORMAT_NOT_FOUND",
+      })
+    );
+  }
+
+  if (book.files.length === 1) {
+    return next(
+      new ConflictError("A book must keep at least one file", {
+        code: "LAST_RENDITION",
+      })
+    );
+  }
+
+  try {
+    await removeBookFile(book, rendition, (req as AuthRequest).userId);
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to delete book file");
+    return next(new InternalError("Error while deleting the book file"));
+  }
+
+  res.status(204).end();
+};
+
+export {
+  createBook,
+  updateBook,
+  listBooks,
+  getsingleBook,
+  deleteBook,
+  listTrash,
+  listMyBooks,
+  updateBookStatus,
+  listBookHistory,
+  rollbackBookRevision,
+  restoreBook,
+  deleteBookFile,
+  downloadBook,
+};
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+  pagination,
+  userSummary,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  createBook,
+  deleteBook,
+  deleteBookFile,
+  downloadBook,
+  getsingleBook,
+  listBookHistory,
+  listBooks,
+  listMyBooks,
+  listTrash,
+  restoreBook,
+  rollbackBookRevision,
+  updateBook,
+  updateBookStatus,
+} from "./bookController.ts";
+import {
+  BOOK_FORMATS,
+  BOOK_REVISION_ACTIONS,
+  BOOK_STATUSES,
+  COVER_VARIANTS,
+  type Book,
+  type BookCover,
+  type BookListPagination,
+  type CoverVariantName,
+} from "./bookTypes.ts";
+
+// Field lists are checked against bookTypes.ts, so a new Book field does
+// not compile until it is described here as well
+
+const coverVariant = z.object({
+  url: z.url(),
+  width: z.int(),
+  height: z.int(),
+  bytes: z.int(),
+});
+
+const coverFields = {
+  variants: z.object(
+    Object.fromEntries(
+      Object.keys(COVER_VARIANTS).map((name) => [name, coverVariant])
+    ) as Record<CoverVariantName, typeof coverVariant>
+  ),
+  blurhash: z.string(),
+  dominantColor: z.string().regex(/^#[0-9a-f]{6}$/i),
+  width: z.int(),
+  height: z.int(),
+} satisfies Record<keyof BookCover, z.ZodType>;
+
+// Renditions without their storage URL; downloads go through
+// GET /api/books/{bookId}/download
+const bookFile = component(
+  "BookFile",
+  z.object({
+    format: z.enum(BOOK_FORMATS),
+    bytes: z.int(),
+    checksum: z.string().meta({ description: "Hex SHA-256 of the file" }),
+    pageCount: z.int().optional(),
+    uploadedAt: dateTime,
+  })
+);
+
+const bookFields = {
+  _id: objectIdString,
+  title: z.string(),
+  author: objectIdString.meta({ description: "The uploading user" }),
+  authors: z.array(z.string()),
+  genre: z.string().meta({ description: "Genre slug" }),
+  description: z.string().optional(),
+  isbn: z.string().optional().meta({ description: "ISBN-13 digits" }),
+  language: z.string().optional().meta({ description: "ISO 639-1 code" }),
+  publicationYear: z.int().optional(),
+  tags: z.array(z.string()),
+  series: z
+    .object({ name: z.string(), index: z.number().optional() })
+    .optional(),
+  pageCount: z.int().optional(),
+  cover: component("BookCover", z.object(coverFields)),
+  files: z.array(bookFile),
+  downloadCount: z.int(),
+  ratingAverage: z.number(),
+  reviewCount: z.int(),
+  status: z.enum(BOOK_STATUSES),
+  publishAt: dateTime.optional(),
+  publishedAt: dateTime.optional(),
+  reviewedBy: objectIdString.optional(),
+  reviewedAt: dateTime.optional(),
+  rejectionReason: z.string().optional(),
+  hidden: z.boolean(),
+  hiddenReason: z.string().optional(),
+  hiddenBy: objectIdString.optional(),
+  deletedAt: dateTime.nullable().optional(),
+  deletedBy: objectIdString.optional(),
+  revision: z.int(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+} satisfies Record<keyof Book, z.ZodType>;
+
+export const bookSchema = component("Book", z.looseObject(bookFields));
+
+const cursorPagination = component(
+  "CursorPagination",
+  z.object({
+    total: z.int(),
+    page: z.int().nullable().meta({ description: "null when paging by cursor" }),
+    limit: z.int(),
+    totalPages: z.int(),
+    nextCursor: z.string().nullable(),
+    next: z.string().nullable().meta({ description: "URL of the next page" }),
+  } satisfies Record<keyof BookListPagination, z.ZodType>)
+);
+
+const bookChange = z.object({
+  field: z.string(),
+  from: z.unknown().optional(),
+  to: z.unknown().optional(),
+});
+
+const historyEntry = component(
+  "BookHistoryEntry",
+  z.object({
+    revision: z.int(),
+    action: z.enum(BOOK_REVISION_ACTIONS),
+    actor: userSummary.nullable().optional(),
+    at: dateTime,
+    changes: z.array(bookChange),
+    rolledBackTo: z.int().optional(),
+  })
+);
+
+const bookResponse = z.object({ message, book: bookSchema });
+
+const booksResponse = z.object({
+  message,
+  books: z.array(bookSchema),
+  pagination,
+});
+
+export const bookDocs: RouteDocs = new Map([
+  [
+    createBook,
+    {
+      summary: "Upload a book",
+      description:
+        "Creates a draft from a cover, one file per format and the book's metadata.",
+      status: 201,
+      response: z.object({
+        message,
+        book: bookSchema,
+        id: objectIdString.meta({ deprecated: true, description: "Use book._id" }),
+        formats: z.array(z.enum(BOOK_FORMATS)),
+        status: z.enum(BOOK_STATUSES),
+      }),
+    },
+  ],
+  [
+    updateBook,
+    {
+      summary: "Update a book",
+      description:
+        "Owner only. Changes metadata and/or replaces the cover and renditions of the uploaded formats. A scheduled, published or unlisted book goes back to `pending_review` unless the owner is staff.",
+      response: z.object({
+        message,
+        book: bookSchema,
+        id: objectIdString.meta({ deprecated: true, description: "Use book._id" }),
+      }),
+      responses: {
+        403: "Only the owner can update the book",
+        409: "The book was changed by another request",
+      },
+    },
+  ],
+  [
+    listBooks,
+    {
+      summary: "List published books",
+      description:
+        "Filter, search and sort the catalogue. Page with `page`, or with `cursor` from the previous response.",
+      response: z.object({
+        message,
+        books: z.array(bookSchema),
+        pagination: cursorPagination,
+      }),
+    },
+  ],
+  [
+    listTrash,
+    {
+      summary: "List your trashed books",
+      response: z.object({
+        message,
+        books: z.array(
+          component(
+            "TrashedBook",
+            bookSchema.extend({
+              purgeAt: dateTime.meta({ description: "When the book is deleted for good" }),
+            })
+          )
+        ),
+      }),
+    },
+  ],
+  [
+    listMyBooks,
+    {
+      summary: "List your books",
+      description: "Every status, most recently updated first.",
+      response: booksResponse,
+    },
+  ],
+  [
+    getsingleBook,
+    {
+      summary: "Get a book",
+      description:
+        "Published and unlisted books are open to anyone; other statuses only to the owner and staff.",
+      response: bookResponse.extend({
+        formats: z.array(
+          z.object({
+            format: z.enum(BOOK_FORMATS),
+            bytes: z.int(),
+            pageCount: z.int().optional(),
+            checksum: z.string(),
+          })
+        ),
+      }),
+    },
+  ],
+  [
+    downloadBook,
+    {
+      summary: "Download a book file",
+      description:
+        "Returns a short-lived signed URL when JSON is accepted, otherwise redirects to it.",
+      response: z.object({
+        message,
+        url: z.url(),
+        format: z.enum(BOOK_FORMATS),
+        expiresAt: dateTime,
+      }),
+      responses: { 302: "Redirect to the signed URL" },
+    },
+  ],
+  [
+    deleteBook,
+    {
+      summary: "Move a book to the trash",
+      description: "Owner or staff. Restorable until it is purged.",
+      status: 204,
+      responses: { 403: "Neither the owner nor staff" },
+    },
+  ],
+  [
+    updateBookStatus,
+    {
+      summary: "Change a book's status",
+      description:
+        "Submit for review (optionally scheduled with `publishAt`), return to draft, or switch between published and unlisted.",
+      response: bookResponse,
+      responses: {
+        403: "Only the owner can change the status",
+        409: "The transition is not allowed from the current status",
+      },
+    },
+  ],
+  [
+    listBookHistory,
+    {
+      summary: "List a book's revisions",
+      description: "Owner or admin. Newest revision first.",
+      response: z.object({
+        message,
+        revision: z.int().meta({ description: "Current revision" }),
+        history: z.array(historyEntry),
+        pagination,
+      }),
+    },
+  ],
+  [
+    rollbackBookRevision,
+    {
+      summary: "Roll a book back to a revision",
+      description:
+        "Owner or admin. Restores metadata, cover and files; recorded as a new revision.",
+      response: bookResponse,
+      responses: {
+        403: "Neither the owner nor an admin",
+        409: "A file of that revision is gone, or the book changed meanwhile",
+      },
+    },
+  ],
+  [
+    restoreBook,
+    {
+      summary: "Restore a trashed book",
+      response: bookResponse,
+      responses: { 403: "Neither the owner nor staff" },
+    },
+  ],
+  [
+    deleteBookFile,
+    {
+      summary: "Remove one rendition",
+      description: "A book keeps at least one file.",
+      status: 204,
+      responses: {
+        403: "Only the owner can remove files",
+        409: "The last remaining file cannot be removed",
+      },
+    },
+  ],
+]);
@@ -0,0 +1,278 @@
+import {
+  ConflictError,
+  NotFoundError,
+  UpstreamError,
+} from "../errors/appError.ts";
+import storage from "../storage/storage.ts";
+import type { StorageResourceType } from "../storage/storageTypes.ts";
+import bookModel from "./bookModel.ts";
+import bookRevisionModel from "./bookRevisionModel.ts";
+import type {
+  BookCover,
+  BookFieldChange,
+  BookFileRendition,
+  BookRevision,
+  BookRevisionAction,
+  BookSnapshot,
+  CoverVariant,
+} from "./bookTypes.ts";
+import logger from "../observability/logger.ts";
+import { revisionRecordFailures } from "../observability/metrics.ts";
+
+export interface AssetRef {
+  assetId: string;
+  resourceType: StorageResourceType;
+}
+
+const VERSIONED_FIELDS = [
+  "title",
+  "authors",
+  "genre",
+  "description",
+  "isbn",
+  "language",
+  "publicationYear",
+  "tags",
+  "series",
+  "pageCount",
+  "cover",
+  "files",
+] as const satisfies readonly (keyof BookSnapshot)[];
+
+type Versioned = { toObject?: () => unknown };
+
+/**
+ * Plain copy of the versioned fields of a book document (or lean object).
+ */
+export const snapshotOf = (book: object): BookSnapshot => {
+  const source = (
+    typeof (book as Versioned).toObject === "function"
+      ? (book as Versioned).toObject!()
+      : book
+  ) as Record<string, unknown>;
+
+  return Object.fromEntries(
+    VERSIONED_FIELDS.filter((field) => source[field] !== undefined).map(
+      (field) => [field, structuredClone(source[field])]
+    )
+  ) as unknown as BookSnapshot;
+};
+
+const diffSnapshots = (
+  before: BookSnapshot | undefined,
+  after: BookSnapshot
+): BookFieldChange[] =>
+  VERSIONED_FIELDS.filter(
+    (field) => JSON.stringify(before?.[field]) !== JSON.stringify(after[field])
+  ).map((field) => ({
+    field,
+    ...(before?.[field] !== undefined ? { from: before[field] } : {}),
+    ...(after[field] !== undefined ? { to: after[field] } : {}),
+  }));
+
+/**
+ * Every stored asset a snapshot points at: each cover variant and each
+ * rendition.
+ */
+export const snapshotAssets = (snapshot: Partial<BookSnapshot>): AssetRef[] => [
+  ...Object.values(snapshot.cover?.variants ?? {}).map((variant) => ({
+    assetId: variant.assetId,
+    resourceType: "image" as const,
+  })),
+  ...(snapshot.files ?? []).map((file) => ({
+    assetId: file.assetId,
+    resourceType: "raw" as const,
+  })),
+];
+
+/**
+ * Every asset referenced by a book's history. Replaced covers and files
+ * are kept for rollbacks until the book is purged.
+ */
+export const revisionAssets = async (bookId: string) => {
+  const revisions = await bookRevisionModel
+    .find({ book: bookId }, "before after")
+    .lean();
+
+  const assets = new Map<string, AssetRef>();
+  for (const { before, after } of revisions) {
+    for (const asset of [
+      ...snapshotAssets(before ?? {}),
+      ...snapshotAssets(after),
+    ]) {
+      assets.set(`${asset.resourceType}:${asset.assetId}`, asset);
+    }
+  }
+  return [...assets.values()];
+};
+
+export interface RecordRevisionInput {
+  // The book as stored after the change, carrying its new `revision`
+  book: { _id: unknown; revision: number };
+  action: BookRevisionAction;
+  actorId?: string | undefined;
+  // Defaults to the state after the change, for actions that leave the
+  // versioned fields alone (delete, restore, status)
+  before?: BookSnapshot | undefined;
+  // Changes outside the snapshot, e.g. a status change
+  changes?: BookFieldChange[];
+  rolledBackTo?: number;
+}
+
+/**
+ * Append an audit entry for a change that has already been stored. There
+ * is no transaction around the two writes, so a failure here does not undo
+ * the change; it is logged and counted in
+ * book_revision_record_failures_total so the gap in the history is noticed.
+ */
+export const recordRevision = async (input: RecordRevisionInput) => {
+  const after = snapshotOf(input.book);
+  const before =
+    input.action === "create" ? undefined : (input.before ?? after);
+  try {
+    await bookRevisionModel.create({
+      book: String(input.book._id),
+      revision: input.book.revision,
+      action: input.action,
+      ...(input.actorId ? { actor: input.actorId } : {}),
+      changes: [...(input.changes ?? []), ...diffSnapshots(before, after)],
+      ...(before ? { before } : {}),
+      after,
+      ...(input.rolledBackTo !== undefined
+        ? { rolledBackTo: input.rolledBackTo }
+        : {}),
+    });
+  } catch (error) {
+    revisionRecordFailures.inc({ action: input.action });
+    logger.error(
+      { err: error },
+      `Failed to record revision ${input.book.revision} of book ${input.book._id}`
+    );
+  }
+};
+
+// Asset ids and private rendition URLs stay server-side, like in the book
+// responses themselves
+const redactCover = (cover: BookCover) => ({
+  ...cover,
+  variants: Object.fromEntries(
+    Object.entries(cover.variants).map(([name, variant]) => {
+      const redacted: Partial<CoverVariant> = { ...variant };
+      delete redacted.assetId;
+      return [name, redacted];
+    })
+  ),
+});
+
+const redactFiles = (files: BookFileRendition[]) =>
+  files.map((file) => {
+    const redacted: Partial<BookFileRendition> = { ...file };
+    delete redacted.url;
+    delete redacted.assetId;
+    return redacted;
+  });
+
+const redactValue = (field: string, value: unknown) => {
+  if (value === undefined) return {};
+  if (field === "cover") return redactCover(value as BookCover);
+  if (field === "files") return redactFiles(value as BookFileRendition[]);
+  return value;
+};
+
+/**
+ * An audit entry as returned by GET /api/books/:bookId/history.
+ */
+export const toHistoryEntry = (revision: BookRevision) => ({
+  revision: revision.revision,
+  action: revision.action,
+  actor: revision.actor,
+  at: revision.createdAt,
+  changes: revision.changes.map(({ field, from, to }) => ({
+    field,
+    ...(from !== undefined ? { from: redactValue(field, from) } : {}),
+    ...(to !== undefined ? { to: redactValue(field, to) } : {}),
+  })),
+  ...(revision.rolledBackTo !== undefined
+    ? { rolledBackTo: revision.rolledBackTo }
+    : {}),
+});
+
+/**
+ * The book as it was at `revision`: the state after that entry, or, for
+ * books created before history was recorded, the state before the next
+ * one.
+ */
+const snapshotAt = async (bookId: string, revision: number) => {
+  const entry = await bookRevisionModel
+    .findOne({ book: bookId, revision })
+    .lean();
+  if (entry) return entry.after;
+
+  const next = await bookRevisionModel
+    .findOne({ book: bookId, revision: revision + 1 })
+    .lean();
+  return next?.before;
+};
+
+/**
+ * Restore the versioned fields (metadata, cover and files) of a book to a
+ * previous revision. Status, moderation and trash state are left alone.
+ * The rollback is itself recorded, so it can be undone the same way.
+ */
+export const rollbackBook = async (
+  book: { _id: unknown; revision: number },
+  revision: number,
+  actorId: string
+) => {
+  const bookId = String(book._id);
+  const target = await snapshotAt(bookId, revision);
+  if (!target || revision >= book.revision) {
+    throw new NotFoundError("Revision does not exist", {
+      code: "REVISION_NOT_FOUND",
+    });
+  }
+
+  // Old assets are kept, but make sure nothing removed them out of band
+  for (const asset of snapshotAssets(target)) {
+    let stat;
+    try {
+      stat = await storage.stat(asset.assetId, asset.resourceType);
+    } catch (error) {
+      logger.error({ err: error }, `${storage.name} stat error`);
+      throw new UpstreamError("Failed to check the revision's files");
+    }
+    if (!stat) {
+      throw new ConflictError("A file of this revision no longer exists", {
+        code: "REVISION_ASSET_MISSING",
+        details: { assetId: asset.assetId },
+      });
+    }
+  }
+
+  const unset = VERSIONED_FIELDS.filter((field) => target[field] === undefined);
+  const updated = await bookModel.findOneAndUpdate(
+    { _id: bookId, revision: book.revision, deletedAt: null },
+    {
+      $set: snapshotOf(target),
+      $inc: { revision: 1 },
+      ...(unset.length
+        ? { $unset: Object.fromEntries(unset.map((field) => [field, 1])) }
+        : {}),
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw new ConflictError("Book was changed by another request, try again", {
+      code: "BOOK_CHANGED",
+    });
+  }
+
+  await recordRevision({
+    book: updated,
+    action: "rollback",
+    actorId,
+    before: snapshotOf(book),
+    rolledBackTo: revision,
+  });
+  return updated;
+};
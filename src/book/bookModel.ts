@@ -1,5 +1,78 @@
 import mongoose from "mongoose";
-import type { Book } from "./bookTypes.ts";
+import {
+  BOOK_FORMATS,
+  BOOK_STATUSES,
+  type Book,
+  type BookCover,
+  type BookFileRendition,
+  type BookSeries,
+  type CoverVariant,
+} from "./bookTypes.ts";
+
+const renditionSchema = new mongoose.Schema<BookFileRendition>(
+  {
+    format: { type: String, enum: BOOK_FORMATS, required: true },
+    url: { type: String, required: true },
+    assetId: { type: String, required: true },
+    bytes: { type: Number, required: true },
+    checksum: { type: String, required: true },
+    pageCount: { type: Number },
+    uploadedAt: { type: Date, required: true, default: Date.now },
+  },
+  {
+    _id: false,
+    // Renditions are only reachable through GET /:bookId/download
+    toJSON: {
+      transform: (_doc, ret: Partial<BookFileRendition>) => {
+        delete ret.url;
+        delete ret.assetId;
+        return ret;
+      },
+    },
+  }
+);
+
+const coverVariantSchema = new mongoose.Schema<CoverVariant>(
+  {
+    url: { type: String, required: true },
+    assetId: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+    bytes: { type: Number, required: true },
+  },
+  {
+    _id: false,
+    toJSON: {
+      transform: (_doc, ret: Partial<CoverVariant>) => {
+        delete ret.assetId;
+        return ret;
+      },
+    },
+  }
+);
+
+const coverSchema = new mongoose.Schema<BookCover>(
+  {
+    variants: {
+      thumbnail: { type: coverVariantSchema, required: true },
+      medium: { type: coverVariantSchema, required: true },
+      large: { type: coverVariantSchema, required: true },
+    },
+    blurhash: { type: String, required: true },
+    dominantColor: { type: String, required: true },
+    width: { type: Number, required: true },
+    height: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+const seriesSchema = new mongoose.Schema<BookSeries>(
+  {
+    name: { type: String, required: true },
+    index: { type: Number },
+  },
+  { _id: false }
+);
 
 const bookSchema = new mongoose.Schema<Book>(
   {
@@ -12,22 +85,130 @@ const bookSchema = new mongoose.Schema<Book>(
       required: true,
       ref:"Users"
     },
+    authors: {
+      type: [String],
+      default: [],
+    },
     genre: {
       type: String,
       required: true,
     },
-    coverImage: {
+    description: {
+      type: String,
+    },
+    isbn: {
       type: String,
-      required: true,
     },
-    file: {
+    language: {
       type: String,
+    },
+    publicationYear: {
+      type: Number,
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    series: {
+      type: seriesSchema,
+    },
+    pageCount: {
+      type: Number,
+    },
+    cover: {
+      type: coverSchema,
       required: true,
     },
+    files: {
+      type: [renditionSchema],
+      validate: {
+        validator: (files: BookFileRendition[]) =>
+          files.length > 0 &&
+          new Set(files.map((f) => f.format)).size === files.length,
+        message: "A book needs at least one file and one file per format",
+      },
+    },
+    downloadCount: {
+      type: Number,
+      default: 0,
+    },
+    ratingAverage: {
+      type: Number,
+      default: 0,
+    },
+    reviewCount: {
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: BOOK_STATUSES,
+      default: "draft",
+    },
+    publishAt: {
+      type: Date,
+    },
+    publishedAt: {
+      type: Date,
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Users",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+    },
+    hidden: {
+      type: Boolean,
+      default: false,
+    },
+    hiddenReason: {
+      type: String,
+    },
+    hiddenBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Users",
+    },
+    deletedAt: {
+      type: Date,
+    },
+    deletedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Users",
+    },
+    revision: {
+      type: Number,
+      default: 0,
+    },
   },
   { timestamps: true }
 );
 
+// Backs the `q` search parameter of the book listing. Replaces the old
+// title-only text index: drop `title_text` on existing databases first,
+// MongoDB allows a single text index per collection.
+bookSchema.index(
+  { title: "text", authors: "text", tags: "text", description: "text" },
+  {
+    name: "book_text_search",
+    weights: { title: 10, authors: 5, tags: 3, description: 1 },
+  }
+);
+bookSchema.index({ genre: 1, createdAt: -1 });
+bookSchema.index({ author: 1, createdAt: -1 });
+bookSchema.index({ ratingAverage: -1, _id: -1 });
+bookSchema.index({ isbn: 1 }, { sparse: true });
+bookSchema.index({ tags: 1 });
+bookSchema.index({ "series.name": 1, "series.index": 1 }, { sparse: true });
+// Public listings, the moderation queue and the publish scheduler
+bookSchema.index({ status: 1, createdAt: -1 });
+bookSchema.index({ status: 1, publishAt: 1 });
+// Trash listing and the purge job
+bookSchema.index({ deletedAt: 1 }, { sparse: true });
+
 const bookModel = mongoose.model<Book>("Books", bookSchema);
 
 export default bookModel;
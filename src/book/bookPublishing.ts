@@ -0,0 +1,175 @@
+import { config } from "../config/config.ts";
+import { ConflictError } from "../errors/appError.ts";
+import bookModel from "./bookModel.ts";
+import { recordRevision } from "./bookHistory.ts";
+import { VIEWABLE_STATUSES, type BookStatus } from "./bookTypes.ts";
+import logger from "../observability/logger.ts";
+
+// Statuses an owner may move their book to from each status. Approving,
+// rejecting and scheduled publishing are done by moderators and the
+// scheduler, not through this table.
+const OWNER_TRANSITIONS: Record<BookStatus, BookStatus[]> = {
+  draft: ["pending_review"],
+  pending_review: ["draft"],
+  scheduled: ["draft"],
+  published: ["unlisted", "draft"],
+  rejected: ["pending_review", "draft"],
+  unlisted: ["published", "draft"],
+};
+
+// Statuses whose content a moderator has approved
+const APPROVED_STATUSES: BookStatus[] = ["scheduled", "published", "unlisted"];
+
+/**
+ * The status a book moves to when its owner edits its content: an approved
+ * book goes back to review so the edit is moderated too. Staff edits stay
+ * live, as their submissions are approved straight away.
+ */
+export const statusAfterEdit = (status: BookStatus, actorIsStaff: boolean) =>
+  !actorIsStaff && APPROVED_STATUSES.includes(status)
+    ? ("pending_review" as const)
+    : status;
+
+/**
+ * Whether anyone, signed in or not, may open the book by id. Everything
+ * else is only visible to the owner and staff (see canManageBook).
+ */
+export const isPubliclyViewable = (book: {
+  status: BookStatus;
+  hidden?: boolean;
+}) => !book.hidden && VIEWABLE_STATUSES.includes(book.status);
+
+/**
+ * The update that approves a book: published right away, or scheduled when
+ * `publishAt` is still in the future.
+ */
+export const approvalUpdate = (
+  publishAt: Date | undefined,
+  reviewerId: string
+) => {
+  const now = new Date();
+  const scheduled = !!publishAt && publishAt > now;
+  return {
+    $set: {
+      status: scheduled ? ("scheduled" as const) : ("published" as const),
+      ...(scheduled ? {} : { publishedAt: now }),
+      reviewedBy: reviewerId,
+      reviewedAt: now,
+    },
+    $unset: { rejectionReason: 1 },
+  };
+};
+
+// MongoDB rejects an empty $unset
+const unsetIfAny = (fields: Record<string, number>) =>
+  Object.keys(fields).length ? { $unset: fields } : {};
+
+/**
+ * The owner-requested update for `target`. Submitting for review goes
+ * straight through approval when the owner is staff, and each submission
+ * carries its own publish date (or none: publish on approval).
+ */
+const statusUpdate = (
+  target: BookStatus,
+  options: { publishAt?: Date | undefined; actorId: string; actorIsStaff: boolean }
+) => {
+  if (target !== "pending_review") {
+    return { $set: { status: target } };
+  }
+
+  const update = options.actorIsStaff
+    ? approvalUpdate(options.publishAt, options.actorId)
+    : { $set: { status: target }, $unset: {} };
+
+  return options.publishAt
+    ? { $set: { ...update.$set, publishAt: options.publishAt }, ...unsetIfAny(update.$unset) }
+    : { $set: update.$set, $unset: { ...update.$unset, publishAt: 1 } };
+};
+
+/**
+ * Apply an owner's status change and record it in the book history.
+ * Throws a 409 for a transition the table does not allow; returns null if
+ * the book changed underneath.
+ */
+export const changeBookStatus = async (
+  book: { _id: unknown; status: BookStatus },
+  target: BookStatus,
+  options: { publishAt?: Date | undefined; actorId: string; actorIsStaff: boolean }
+) => {
+  if (!OWNER_TRANSITIONS[book.status].includes(target)) {
+    throw new ConflictError(
+      `A ${book.status} book cannot be moved to ${target}`,
+      {
+        code: "INVALID_STATUS_TRANSITION",
+        details: { status: book.status, allowed: OWNER_TRANSITIONS[book.status] },
+      }
+    );
+  }
+
+  // Guard on the status we checked against, in case of a concurrent change
+  const updated = await bookModel.findOneAndUpdate(
+    { _id: String(book._id), status: book.status, deletedAt: null },
+    { ...statusUpdate(target, options), $inc: { revision: 1 } },
+    { new: true }
+  );
+
+  if (updated) {
+    await recordRevision({
+      book: updated,
+      action: "status",
+      actorId: options.actorId,
+      changes: [{ field: "status", from: book.status, to: updated.status }],
+    });
+  }
+  return updated;
+};
+
+/**
+ * Publish every scheduled book whose `publishAt` has passed. Not recorded
+ * in the book history; the approval that scheduled it is.
+ */
+export const publishScheduledBooks = async () => {
+  const result = await bookModel.updateMany(
+    { status: "scheduled", publishAt: { $lte: new Date() } },
+    [{ $set: { status: "published", publishedAt: "$publishAt" } }],
+    { updatePipeline: true }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Books created before the publication workflow have no status and were
+ * public; mark them published so they stay listed. Books from before the
+ * history have no `revision` either, though they load with the default 0;
+ * store it, since updates only match the revision they read.
+ */
+export const publishLegacyBooks = async () => {
+  await bookModel.updateMany(
+    { status: { $exists: false } },
+    [{ $set: { status: "published", publishedAt: "$createdAt" } }],
+    { updatePipeline: true }
+  );
+  await bookModel.updateMany(
+    { revision: { $exists: false } },
+    { $set: { revision: 0 } },
+    { timestamps: false }
+  );
+};
+
+/**
+ * Run the scheduler now and then every `publishSchedulerIntervalSeconds`.
+ * The timer does not keep the process alive on its own.
+ */
+export const startPublishScheduler = () => {
+  const run = () =>
+    publishScheduledBooks()
+      .then((published) => {
+        if (published) logger.info(`Published ${published} scheduled book(s)`);
+      })
+      .catch((error) => logger.error({ err: error }, "Scheduled publishing failed"));
+
+  run();
+  const timer = setInterval(run, config.publishSchedulerIntervalSeconds * 1000);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,45 @@
+import { config } from "../config/config.ts";
+import bookModel from "./bookModel.ts";
+import { removeBook } from "./bookService.ts";
+import logger from "../observability/logger.ts";
+
+/**
+ * Permanently delete every book that has been in the trash longer than
+ * `trashRetentionDays`. One failing book does not stop the rest; it is
+ * retried on the next run.
+ */
+export const purgeTrashedBooks = async () => {
+  const cutoff = new Date(
+    Date.now() - config.trashRetentionDays * 24 * 60 * 60 * 1000
+  );
+  const books = await bookModel.find({ deletedAt: { $lte: cutoff } });
+
+  let purged = 0;
+  for (const book of books) {
+    try {
+      await removeBook(book);
+      purged += 1;
+    } catch (error) {
+      logger.error({ err: error }, `Failed to purge book ${book._id}`);
+    }
+  }
+  return purged;
+};
+
+/**
+ * Run the purge now and then every `trashPurgeIntervalMinutes`. The timer
+ * does not keep the process alive on its own.
+ */
+export const startTrashPurgeJob = () => {
+  const run = () =>
+    purgeTrashedBooks()
+      .then((purged) => {
+        if (purged) logger.info(`Purged ${purged} book(s) from the trash`);
+      })
+      .catch((error) => logger.error({ err: error }, "Trash purge failed"));
+
+  run();
+  const timer = setInterval(run, config.trashPurgeIntervalMinutes * 60 * 1000);
+  timer.unref();
+  return timer;
+};
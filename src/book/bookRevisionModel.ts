@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+import { BOOK_REVISION_ACTIONS, type BookRevision } from "./bookTypes.ts";
+
+const bookRevisionSchema = new mongoose.Schema<BookRevision>(
+  {
+    book: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Books",
+    },
+    revision: { type: Number, required: true },
+    action: { type: String, enum: BOOK_REVISION_ACTIONS, required: true },
+    actor: { type: mongoose.Schema.Types.ObjectId, ref: "Users" },
+    // { field, from?, to? } per changed field
+    changes: { type: mongoose.Schema.Types.Mixed, default: [] },
+    // Plain copies of the book, see snapshotOf in book/bookHistory.ts
+    before: { type: mongoose.Schema.Types.Mixed },
+    after: { type: mongoose.Schema.Types.Mixed, required: true },
+    rolledBackTo: { type: Number },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+bookRevisionSchema.index({ book: 1, revision: -1 }, { unique: true });
+
+// The audit trail is append-only
+const rejectChange = () => {
+  throw new Error("Book revisions are immutable");
+};
+bookRevisionSchema.pre(
+  [
+    "updateOne",
+    "updateMany",
+    "findOneAndUpdate",
+    "replaceOne",
+    "findOneAndReplace",
+    "deleteOne",
+    "deleteMany",
+    "findOneAndDelete",
+  ],
+  rejectChange
+);
+
+const bookRevisionModel = mongoose.model<BookRevision>(
+  "BookRevisions",
+  bookRevisionSchema
+);
+
+export default bookRevisionModel;
@@ -1,36 +1,57 @@
 import express from "express";
-import { createBook, getsingleBook, listBooks, updateBook,deleteBook } from "./bookController.ts";
-import multer from "multer";
-import path from "node:path";
-import { fileURLToPath } from "url";
-import { dirname } from "path";
-import authenticate from "../middlewares/authenticate.ts";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { createBook, getsingleBook, listBooks, updateBook,deleteBook, deleteBookFile, downloadBook, listBookHistory, listMyBooks, listTrash, restoreBook, rollbackBookRevision, updateBookStatus } from "./bookController.ts";
+import authenticate, { optionalAuthenticate } from "../middlewares/authenticate.ts";
+import authorize, { requireVerifiedEmail } from "../middlewares/authorize.ts";
+import validate from "../middlewares/validate.ts";
+import { bookFileSchema, bookHistorySchema, bookIdSchema, bookStatusSchema, createBookSchema, downloadBookSchema, listBooksSchema, myBooksSchema, rollbackBookSchema, updateBookSchema } from "./bookSchemas.ts";
+import { BOOK_UPLOAD_FIELDS, IMPORT_UPLOAD_FIELDS, createUploadMiddleware } from "../upload/uploadMiddleware.ts";
+import { exportBooks, getImportJob, startImport } from "../catalogue/catalogueController.ts";
+import { exportBooksSchema, importJobIdSchema } from "../catalogue/catalogueSchemas.ts";
+import rateLimit from "../middlewares/rateLimit.ts";
+import { routeTemplate } from "../middlewares/accessLog.ts";
+import reviewRouter from "../review/reviewRouter.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import { config } from "../config/config.ts";
 
 const bookRouter = express.Router();
 
-//Routes
-
-const upload = multer({
-    dest: path.resolve(__dirname, "../../public/data/uploads"),
-    limits: { fileSize: 3e7 }
-
+const downloadLimiter = rateLimit({
+    name: "download",
+    windowMs: 60 * 60 * 1000,
+    max: config.downloadsPerHour,
+    key: (req) => (req as AuthRequest).userId,
+    message: "Download limit reached, try again later",
 })
 
-bookRouter.post("/",authenticate, upload.fields([
-    { name: 'coverImage', maxCount: 1 },
-    { name: "file", maxCount: 1 }
-]), createBook)
+const writeLimiter = rateLimit({
+    name: "book-write",
+    windowMs: 60 * 60 * 1000,
+    max: config.bookWritesPerHour,
+    key: (req) => (req as AuthRequest).userId,
+    message: "Too many book changes, try again later",
+})
 
-bookRouter.patch("/:bookId",authenticate, upload.fields([
-    { name: 'coverImage', maxCount: 1 },
-    { name: "file", maxCount: 1 }
-]), updateBook)
+//Routes
 
-bookRouter.get("/", listBooks)
-bookRouter.get("/:bookId", getsingleBook )
-bookRouter.delete("/:bookId",authenticate, deleteBook )
+bookRouter.post("/",authenticate, authorize("author", "moderator", "admin"), requireVerifiedEmail, writeLimiter, createUploadMiddleware(BOOK_UPLOAD_FIELDS, { requireAll: true }), validate(createBookSchema), createBook)
+
+bookRouter.patch("/:bookId",authenticate, writeLimiter, createUploadMiddleware(BOOK_UPLOAD_FIELDS), validate(updateBookSchema), updateBook)
+
+bookRouter.get("/", validate(listBooksSchema), listBooks)
+bookRouter.get("/trash", authenticate, listTrash)
+bookRouter.get("/mine", authenticate, validate(myBooksSchema), listMyBooks)
+bookRouter.post("/import", authenticate, authorize("admin"), createUploadMiddleware(IMPORT_UPLOAD_FIELDS), startImport)
+bookRouter.get("/import/:jobId", authenticate, authorize("admin"), validate(importJobIdSchema), getImportJob)
+bookRouter.get("/export", authenticate, authorize("admin"), validate(exportBooksSchema), exportBooks)
+bookRouter.use("/:bookId/reviews", routeTemplate("/:bookId/reviews"), reviewRouter)
+
+bookRouter.get("/:bookId", optionalAuthenticate, validate(bookIdSchema), getsingleBook )
+bookRouter.get("/:bookId/download",authenticate, downloadLimiter, validate(downloadBookSchema), downloadBook )
+bookRouter.delete("/:bookId",authenticate, writeLimiter, validate(bookIdSchema), deleteBook )
+bookRouter.patch("/:bookId/status",authenticate, writeLimiter, validate(bookStatusSchema), updateBookStatus )
+bookRouter.get("/:bookId/history",authenticate, validate(bookHistorySchema), listBookHistory )
+bookRouter.post("/:bookId/history/:revision/rollback",authenticate, writeLimiter, validate(rollbackBookSchema), rollbackBookRevision )
+bookRouter.post("/:bookId/restore",authenticate, writeLimiter, validate(bookIdSchema), restoreBook )
+bookRouter.delete("/:bookId/files/:format",authenticate, writeLimiter, validate(bookFileSchema), deleteBookFile )
 
 export default bookRouter;
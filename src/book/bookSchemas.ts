@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+import {
+  BOOK_FORMATS,
+  BOOK_STATUSES,
+  type BookSortField,
+} from "./bookTypes.ts";
+import { genreSlug } from "../genre/genreSchemas.ts";
+import { isValidIsbn, normalizeIsbn, toIsbn13 } from "./isbn.ts";
+
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_PAGE_SIZE = 20;
+const SORT_FIELDS: BookSortField[] = [
+  "createdAt",
+  "title",
+  "ratingAverage",
+  "reviewCount",
+];
+
+const title = z.string().trim().min(1, "title is required").max(200);
+const description = z.string().trim().max(5000);
+
+// Multipart bodies send lists either as repeated fields or as one
+// comma-separated value; accept both
+const stringList = <T extends z.ZodType>(item: T, max: number) =>
+  z.preprocess(
+    (v) => (typeof v === "string" ? v.split(",") : v),
+    z.array(item).max(max)
+  );
+
+const tag = z.string().trim().toLowerCase().min(1).max(40);
+const tags = stringList(tag, 20).transform((list) => [...new Set(list)]);
+const authors = stringList(z.string().trim().min(1).max(200), 20);
+
+const isbn = z
+  .string()
+  .transform(normalizeIsbn)
+  .refine(isValidIsbn, { message: "isbn must be a valid ISBN-10 or ISBN-13" })
+  .transform(toIsbn13);
+
+const language = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z]{2}$/, "language must be a two-letter ISO 639-1 code");
+
+const publicationYear = z.coerce
+  .number()
+  .int()
+  .min(0)
+  .max(new Date().getFullYear() + 1);
+
+const pageCount = z.coerce.number().int().min(1).max(100000);
+
+const series = z
+  .object({
+    name: z.string().trim().min(1, "series name is required").max(200),
+    index: z.coerce.number().min(0).max(10000).optional(),
+  })
+  .transform(({ name, index }) =>
+    index === undefined ? { name } : { name, index }
+  );
+
+// Everything besides title and genre is optional on create and update
+const metadata = z
+  .object({
+    authors,
+    description,
+    isbn,
+    language,
+    publicationYear,
+    tags,
+    series,
+    pageCount,
+  })
+  .partial();
+
+export const bookIdSchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+};
+
+export const bookFileSchema = {
+  params: z.object({
+    bookId: objectId("bookId"),
+    format: z.enum(BOOK_FORMATS),
+  }),
+};
+
+export const downloadBookSchema = {
+  params: bookIdSchema.params,
+  query: z.object({ format: z.enum(BOOK_FORMATS).optional() }),
+};
+
+export const createBookSchema = {
+  body: metadata.extend({ title, genre: genreSlug }),
+};
+
+export const updateBookSchema = {
+  params: bookIdSchema.params,
+  body: metadata.extend({
+    title: title.optional(),
+    genre: genreSlug.optional(),
+  }),
+};
+
+/**
+ * Owner status change. `publishAt` only applies when submitting for review
+ * and must lie in the future.
+ */
+export const bookStatusSchema = {
+  params: bookIdSchema.params,
+  body: z
+    .object({
+      status: z.enum(["draft", "pending_review", "published", "unlisted"]),
+      publishAt: z.coerce
+        .date()
+        .refine((date) => date > new Date(), {
+          message: "publishAt must be in the future",
+        })
+        .optional(),
+    })
+    .refine((body) => !body.publishAt || body.status === "pending_review", {
+      message: "publishAt can only be set when submitting for review",
+      path: ["publishAt"],
+    }),
+};
+
+export const bookHistorySchema = {
+  params: bookIdSchema.params,
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  }),
+};
+
+export const rollbackBookSchema = {
+  params: z.object({
+    bookId: objectId("bookId"),
+    revision: z.coerce.number().int().min(0),
+  }),
+};
+
+export const myBooksSchema = {
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    status: z.enum(BOOK_STATUSES).optional(),
+  }),
+};
+
+export const listBooksSchema = {
+  query: z
+    .object({
+      page: z.coerce.number().int().min(1).default(1),
+      limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+      cursor: z.string().trim().min(1).optional(),
+      // Includes the genre's sub-genres
+      genre: genreSlug.optional(),
+      // Uploading user
+      author: objectId("author").optional(),
+      // Credited author, matched case-insensitively
+      authorName: z.string().trim().min(1).max(200).optional(),
+      language: language.optional(),
+      // Books must carry every listed tag
+      tags: tags.optional(),
+      series: z.string().trim().min(1).max(200).optional(),
+      isbn: isbn.optional(),
+      yearFrom: publicationYear.optional(),
+      yearTo: publicationYear.optional(),
+      q: z.string().trim().min(1).max(200).optional(),
+      sort: z
+        .string()
+        .trim()
+        .default("-createdAt")
+        .refine((v) => SORT_FIELDS.includes(v.replace(/^[-+]/, "") as BookSortField), {
+          message: `sort must be one of: ${SORT_FIELDS.join(", ")} (prefix with - for descending)`,
+        }),
+    })
+    .transform(({ sort, ...rest }) => ({
+      ...rest,
+      sortField: sort.replace(/^[-+]/, "") as BookSortField,
+      sortDirection: (sort.startsWith("-") ? -1 : 1) as 1 | -1,
+    })),
+};
@@ -0,0 +1,446 @@
+import mongoose from "mongoose";
+import {
+  ConflictError,
+  InternalError,
+  UpstreamError,
+} from "../errors/appError.ts";
+import bookModel from "./bookModel.ts";
+import reviewModel from "../review/reviewModel.ts";
+import { removeBookFromLibraries } from "../library/libraryController.ts";
+import storage from "../storage/storage.ts";
+import { detectFileFormat, formatFromMimeType } from "../upload/fileSignature.ts";
+import { extractFileMetadata } from "../upload/fileMetadata.ts";
+import { processCover, removeCoverFiles } from "./coverProcessing.ts";
+import {
+  recordRevision,
+  revisionAssets,
+  snapshotAssets,
+  snapshotOf,
+  type AssetRef,
+} from "./bookHistory.ts";
+import {
+  BOOK_FORMATS,
+  type BookCover,
+  type BookFileRendition,
+  type BookFormat,
+  type BookMetadata,
+  type BookStatus,
+  type CoverVariant,
+  type CoverVariantName,
+} from "./bookTypes.ts";
+import { statusAfterEdit } from "./bookPublishing.ts";
+import logger from "../observability/logger.ts";
+
+// The parts of an uploaded file the service reads; multer files satisfy it,
+// and so do files extracted by the catalogue import
+export type UploadSource = Pick<
+  Express.Multer.File,
+  "path" | "filename" | "mimetype"
+>;
+
+export interface CreateBookInput {
+  metadata: BookMetadata;
+  // Uploading user
+  author: string;
+  coverFile: UploadSource;
+  bookFiles: UploadSource[];
+  // New books start as drafts unless the caller says otherwise
+  status?: BookStatus;
+}
+
+export interface UpdateBookInput {
+  metadata: { [K in keyof BookMetadata]?: BookMetadata[K] | undefined };
+  coverFile?: UploadSource | undefined;
+  bookFiles: UploadSource[];
+  actorId: string;
+  actorIsStaff: boolean;
+}
+
+// Keep only the fields the client actually sent
+const definedFields = <T extends object>(fields: T) =>
+  Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined)
+  ) as { [K in keyof T]?: Exclude<T[K], undefined> };
+
+/**
+ * Best-effort delete of stored assets. Used to roll back a failed operation
+ * and to drop a purged book's assets; anything left behind is picked up by
+ * the reconciliation command (scripts/reconcile.ts).
+ */
+const discardAssets = async (assets: AssetRef[]) => {
+  await Promise.all(
+    assets.map(({ assetId, resourceType }) =>
+      storage.delete(assetId, resourceType).catch((error) => {
+        logger.warn({ err: error }, `Failed to delete ${resourceType} asset ${assetId}`);
+      })
+    )
+  );
+};
+
+/**
+ * Validate and process a cover (see book/coverProcessing.ts), then upload
+ * each WebP variant. Every uploaded variant is pushed onto `uploaded` as it
+ * lands, so the caller can roll back a partial upload.
+ */
+const uploadCover = async (
+  file: UploadSource,
+  uploaded: AssetRef[]
+): Promise<BookCover> => {
+  const processed = await processCover(file.path);
+
+  try {
+    const variants = {} as Record<CoverVariantName, CoverVariant>;
+    for (const variant of processed.variants) {
+      const asset = await storage.upload(variant.path, {
+        filename: `${file.filename}-${variant.name}`,
+        folder: "book-covers",
+        resourceType: "image",
+        format: "webp",
+      });
+      uploaded.push({ assetId: asset.assetId, resourceType: "image" });
+      variants[variant.name] = {
+        url: asset.url,
+        assetId: asset.assetId,
+        width: variant.width,
+        height: variant.height,
+        bytes: asset.bytes,
+      };
+    }
+
+    return {
+      variants,
+      blurhash: processed.blurhash,
+      dominantColor: processed.dominantColor,
+      width: processed.width,
+      height: processed.height,
+    };
+  } catch (error) {
+    logger.error({ err: error }, `${storage.name} cover upload error`);
+    throw new UpstreamError("Failed to upload cover image");
+  } finally {
+    await removeCoverFiles(processed);
+  }
+};
+
+/**
+ * Upload one verified book file as a rendition: extract size, checksum and
+ * page count from the temp file, then push it to storage.
+ */
+const uploadRendition = async (
+  file: UploadSource
+): Promise<BookFileRendition> => {
+  try {
+    const format = formatFromMimeType(file.mimetype) as BookFormat;
+    const metadata = await extractFileMetadata(file.path, format);
+    const asset = await storage.upload(file.path, {
+      filename: file.filename,
+      folder: "book-files",
+      resourceType: "raw",
+      format,
+    });
+
+    return {
+      format,
+      url: asset.url,
+      assetId: asset.assetId,
+      ...metadata,
+      uploadedAt: new Date(),
+    };
+  } catch (error) {
+    logger.error({ err: error }, `${storage.name} book upload error`);
+    throw new UpstreamError("Failed to upload book file");
+  }
+};
+
+/**
+ * Create a book:
+ *  - process and upload the cover variants, then every rendition
+ *  - insert the document
+ * If any step fails, every asset uploaded so far is deleted again before
+ * the error is rethrown.
+ */
+export const createBookRecord = async (input: CreateBookInput) => {
+  const uploaded: AssetRef[] = [];
+
+  try {
+    const cover = await uploadCover(input.coverFile, uploaded);
+
+    const renditions: BookFileRendition[] = [];
+    for (const bookFile of input.bookFiles) {
+      const rendition = await uploadRendition(bookFile);
+      uploaded.push({ assetId: rendition.assetId, resourceType: "raw" });
+      renditions.push(rendition);
+    }
+
+    let book;
+    try {
+      book = await bookModel.create({
+        ...definedFields({
+          ...input.metadata,
+          // Fall back to what the PDF rendition reported
+          pageCount:
+            input.metadata.pageCount ??
+            renditions.find((r) => r.pageCount)?.pageCount,
+        }),
+        author: input.author,
+        ...(input.status ? { status: input.status } : {}),
+        ...(input.status === "published" ? { publishedAt: new Date() } : {}),
+        cover,
+        files: renditions,
+        revision: 1,
+      });
+    } catch (error) {
+      logger.error({ err: error }, "Database insert error");
+      throw new InternalError("Error while saving book to database");
+    }
+
+    await recordRevision({ book, action: "create", actorId: input.author });
+    return book;
+  } catch (error) {
+    await discardAssets(uploaded);
+    throw error;
+  }
+};
+
+/**
+ * Update a book:
+ *  - upload the new cover and/or renditions (each replaces the existing
+ *    rendition of the same format)
+ *  - update the document and record the revision; an approved book goes
+ *    back to review, see statusAfterEdit
+ * Replaced assets are kept so the book can be rolled back to them (see
+ * book/bookHistory.ts). New uploads are removed again if a later step
+ * fails.
+ */
+export const updateBookRecord = async (
+  book: {
+    _id: unknown;
+    files: BookFileRendition[];
+    status: BookStatus;
+    revision: number;
+  },
+  input: UpdateBookInput
+) => {
+  const uploaded: AssetRef[] = [];
+  const status = statusAfterEdit(book.status, input.actorIsStaff);
+  let updated;
+
+  try {
+    const cover = input.coverFile
+      ? await uploadCover(input.coverFile, uploaded)
+      : undefined;
+
+    const newRenditions: BookFileRendition[] = [];
+    for (const bookFile of input.bookFiles) {
+      const rendition = await uploadRendition(bookFile);
+      uploaded.push({ assetId: rendition.assetId, resourceType: "raw" });
+      newRenditions.push(rendition);
+    }
+
+    const replacedFormats = new Set(newRenditions.map((r) => r.format));
+
+    try {
+      // Guard on the revision read, as the kept files and the recorded
+      // `before` are based on it
+      updated = await bookModel.findOneAndUpdate(
+        { _id: String(book._id), revision: book.revision, deletedAt: null },
+        {
+          $set: {
+            ...definedFields(input.metadata),
+            ...(cover ? { cover } : {}),
+            ...(status !== book.status ? { status } : {}),
+            files: [
+              ...book.files.filter((f) => !replacedFormats.has(f.format)),
+              ...newRenditions,
+            ],
+          },
+          $inc: { revision: 1 },
+        },
+        { new: true, runValidators: true }
+      );
+    } catch (error) {
+      logger.error({ err: error }, "Database update error");
+      throw new InternalError("Error while updating book in database");
+    }
+
+    if (!updated) {
+      throw new ConflictError("Book was changed by another request, try again", {
+        code: "BOOK_CHANGED",
+      });
+    }
+
+    await recordRevision({
+      book: updated,
+      action: "update",
+      actorId: input.actorId,
+      before: snapshotOf(book),
+      ...(status !== book.status
+        ? { changes: [{ field: "status", from: book.status, to: status }] }
+        : {}),
+    });
+  } catch (error) {
+    await discardAssets(uploaded);
+    throw error;
+  }
+
+  return updated;
+};
+
+/**
+ * Replace a pre-variant cover (`coverImage`/`coverImageId`) with processed
+ * variants, see scripts/migrateCovers.ts. Goes through the raw collection
+ * because the legacy fields are no longer part of the schema. The original
+ * is deleted once replaced, when its asset id is known.
+ */
+export const migrateLegacyCover = async (
+  book: { _id: unknown },
+  original: AssetRef | null,
+  file: UploadSource
+) => {
+  const uploaded: AssetRef[] = [];
+  try {
+    const cover = await uploadCover(file, uploaded);
+    await bookModel.collection.updateOne(
+      { _id: book._id as mongoose.Types.ObjectId },
+      { $set: { cover }, $unset: { coverImage: "", coverImageId: "" } }
+    );
+  } catch (error) {
+    await discardAssets(uploaded);
+    throw error;
+  }
+
+  if (original) await discardAssets([original]);
+};
+
+/**
+ * Turn a pre-rendition book file (`file`/`fileId`) into the book's only
+ * rendition, see scripts/migrateFiles.ts. The stored asset stays where it
+ * is; `filePath` is a downloaded copy to read its format and metadata from.
+ * Goes through the raw collection like migrateLegacyCover.
+ */
+export const migrateLegacyFile = async (
+  book: { _id: unknown; file: string; createdAt?: Date },
+  asset: AssetRef,
+  filePath: string
+) => {
+  const format = await detectFileFormat(filePath);
+  if (!format || !(BOOK_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Not a supported book file (${format ?? "unknown format"})`);
+  }
+
+  const rendition: BookFileRendition = {
+    format: format as BookFormat,
+    url: book.file,
+    assetId: asset.assetId,
+    ...(await extractFileMetadata(filePath, format)),
+    uploadedAt: book.createdAt ?? new Date(),
+  };
+  await bookModel.collection.updateOne(
+    { _id: book._id as mongoose.Types.ObjectId, "files.0": { $exists: false } },
+    { $set: { files: [rendition] }, $unset: { file: "", fileId: "" } }
+  );
+};
+
+/**
+ * Move a book to the trash; it keeps its assets until restored or purged.
+ */
+export const trashBook = async (bookId: string, userId: string) => {
+  const deletedAt = new Date();
+  const book = await bookModel.findOneAndUpdate(
+    { _id: bookId },
+    { $set: { deletedAt, deletedBy: userId }, $inc: { revision: 1 } },
+    { new: true }
+  );
+  if (book) {
+    await recordRevision({
+      book,
+      action: "delete",
+      actorId: userId,
+      changes: [{ field: "deletedAt", to: deletedAt }],
+    });
+  }
+  return book;
+};
+
+export const restoreTrashedBook = async (
+  book: { _id: unknown; deletedAt?: Date | null | undefined },
+  userId: string
+) => {
+  const restored = await bookModel.findByIdAndUpdate(
+    String(book._id),
+    { $unset: { deletedAt: 1, deletedBy: 1 }, $inc: { revision: 1 } },
+    { new: true }
+  );
+  if (restored) {
+    await recordRevision({
+      book: restored,
+      action: "restore",
+      actorId: userId,
+      changes: [{ field: "deletedAt", from: book.deletedAt }],
+    });
+  }
+  return restored;
+};
+
+/**
+ * Drop a single rendition from the book. Its asset stays in storage for
+ * rollbacks until the book is purged. $pull skips the schema validators, so
+ * the filter itself keeps the last rendition in place; a concurrent delete
+ * of another format makes this one a conflict.
+ */
+export const removeBookFile = async (
+  book: { _id: unknown },
+  rendition: BookFileRendition,
+  userId: string
+) => {
+  const updated = await bookModel.findOneAndUpdate(
+    {
+      _id: String(book._id),
+      deletedAt: null,
+      "files.format": rendition.format,
+      "files.1": { $exists: true },
+    },
+    {
+      $pull: { files: { format: rendition.format } },
+      $inc: { revision: 1 },
+    },
+    { new: true }
+  );
+  if (!updated) {
+    throw new ConflictError("Book was changed by another request, try again", {
+      code: "BOOK_CHANGED",
+    });
+  }
+
+  await recordRevision({
+    book: updated,
+    action: "update",
+    actorId: userId,
+    before: snapshotOf(book),
+  });
+};
+
+/**
+ * Permanently remove a book: the document, its reviews and every
+ * shelf/favourite/progress reference to it, then its stored assets,
+ * including those only its history still pointed at. The history itself is
+ * kept as the audit trail.
+ */
+export const removeBook = async (book: {
+  _id: unknown;
+  cover: BookCover;
+  files: BookFileRendition[];
+}) => {
+  const bookId = String(book._id);
+  const assets = new Map(
+    [...snapshotAssets(book), ...(await revisionAssets(bookId))].map(
+      (asset) => [`${asset.resourceType}:${asset.assetId}`, asset]
+    )
+  );
+
+  await bookModel.deleteOne({ _id: bookId });
+  await reviewModel.deleteMany({ book: bookId });
+  await removeBookFromLibraries(bookId);
+
+  await discardAssets([...assets.values()]);
+};
@@ -1,12 +1,203 @@
 import type mongoose from "mongoose";
 
+export const BOOK_FORMATS = ["pdf", "epub", "mobi"] as const;
+
+export type BookFormat = (typeof BOOK_FORMATS)[number];
+
+/**
+ * Publication lifecycle:
+ *   draft -> pending_review -> published | scheduled | rejected
+ * Scheduled books are approved and go live at `publishAt`; unlisted books
+ * can be opened by id but are left out of listings. Only the owner sees
+ * drafts, see book/bookPublishing.ts for the allowed transitions.
+ */
+export const BOOK_STATUSES = [
+  "draft",
+  "pending_review",
+  "scheduled",
+  "published",
+  "rejected",
+  "unlisted",
+] as const;
+
+export type BookStatus = (typeof BOOK_STATUSES)[number];
+
+// Statuses anyone may open by id; only "published" books are listed
+export const VIEWABLE_STATUSES: BookStatus[] = ["published", "unlisted"];
+
+// Target width of each stored cover variant, all encoded as WebP
+export const COVER_VARIANTS = {
+  thumbnail: 160,
+  medium: 480,
+  large: 960,
+} as const;
+
+export type CoverVariantName = keyof typeof COVER_VARIANTS;
+
+export interface CoverVariant {
+  url: string;
+  assetId: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+export interface BookCover {
+  variants: Record<CoverVariantName, CoverVariant>;
+  // Lets clients paint a placeholder before any variant has loaded
+  blurhash: string;
+  // Hex colour, e.g. "#3a5f8c"
+  dominantColor: string;
+  // Dimensions of the original upload
+  width: number;
+  height: number;
+}
+
+// One downloadable rendition of a book, described at upload time
+export interface BookFileRendition {
+  format: BookFormat;
+  url: string;
+  assetId: string;
+  bytes: number;
+  // Hex SHA-256 of the uploaded file
+  checksum: string;
+  pageCount?: number;
+  uploadedAt: Date;
+}
+
+export interface BookSeries {
+  name: string;
+  // Position in the series, e.g. 1 or 2.5 for a novella between books
+  index?: number;
+}
+
 export interface Book {
   _id: string;
   title: string;
-  author:  mongoose.Types.ObjectId;;
+  // The user who uploaded the book; credited writers are in `authors`
+  author:  mongoose.Types.ObjectId;
+  authors: string[];
+  // Slug of a genre in the managed taxonomy, see genre/genreTypes.ts
   genre: string;
-  coverImage: string;
-  file: string;
+  description?: string;
+  // Stored as bare ISBN-13 digits, see book/isbn.ts
+  isbn?: string;
+  // ISO 639-1 code, e.g. "en"
+  language?: string;
+  publicationYear?: number;
+  tags: string[];
+  series?: BookSeries;
+  pageCount?: number;
+  cover: BookCover;
+  files: BookFileRendition[];
+  downloadCount: number;
+  // Denormalized from the reviews collection, see review/reviewModel.ts
+  ratingAverage: number;
+  reviewCount: number;
+  status: BookStatus;
+  // Requested go-live date, honoured once the book is approved
+  publishAt?: Date;
+  publishedAt?: Date;
+  // Last moderation decision; the reason is shown to the owner
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  // Set by moderators to take a book out of public listings
+  hidden: boolean;
+  hiddenReason?: string;
+  hiddenBy?: mongoose.Types.ObjectId;
+  // Set while the book is in the trash, see book/bookPurge.ts
+  deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  // Bumped by every recorded change, see book/bookHistory.ts
+  revision: number;
   createdAt:Date;
   updatedAt:Date;
 }
+
+export const BOOK_REVISION_ACTIONS = [
+  "create",
+  "update",
+  "delete",
+  "restore",
+  "status",
+  "rollback",
+] as const;
+
+export type BookRevisionAction = (typeof BOOK_REVISION_ACTIONS)[number];
+
+// The fields every revision captures and a rollback restores
+export type BookSnapshot = Pick<
+  Book,
+  | "title"
+  | "authors"
+  | "genre"
+  | "description"
+  | "isbn"
+  | "language"
+  | "publicationYear"
+  | "tags"
+  | "series"
+  | "pageCount"
+  | "cover"
+  | "files"
+>;
+
+export interface BookFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+// One immutable audit entry; `revision` is the book's revision after it
+export interface BookRevision {
+  _id: string;
+  book: mongoose.Types.ObjectId;
+  revision: number;
+  action: BookRevisionAction;
+  // Absent for changes made by the system
+  actor?: mongoose.Types.ObjectId;
+  changes: BookFieldChange[];
+  // Asset references in here keep old covers and files restorable
+  before?: BookSnapshot;
+  after: BookSnapshot;
+  rolledBackTo?: number;
+  createdAt: Date;
+}
+
+// Descriptive fields set by the uploader on create/update
+export interface BookMetadata {
+  title: string;
+  genre: string;
+  authors?: string[] | undefined;
+  description?: string | undefined;
+  isbn?: string | undefined;
+  language?: string | undefined;
+  publicationYear?: number | undefined;
+  tags?: string[] | undefined;
+  series?: BookSeries | undefined;
+  pageCount?: number | undefined;
+}
+
+export interface BookDownload {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  format: BookFormat;
+  createdAt: Date;
+}
+
+export type BookSortField =
+  | "createdAt"
+  | "title"
+  | "ratingAverage"
+  | "reviewCount";
+
+export interface BookListPagination {
+  total: number;
+  page: number | null;
+  limit: number;
+  totalPages: number;
+  nextCursor: string | null;
+  next: string | null;
+}
@@ -0,0 +1,130 @@
+import fs from "node:fs";
+import sharp from "sharp";
+import { encode } from "blurhash";
+import { ValidationError } from "../errors/appError.ts";
+import {
+  COVER_VARIANTS,
+  type CoverVariantName,
+} from "./bookTypes.ts";
+
+const MIN_COVER_WIDTH = 300;
+const MIN_COVER_HEIGHT = 400;
+// width / height; portrait covers from square-ish (4:5) to tall (1:2)
+const MIN_ASPECT_RATIO = 0.5;
+const MAX_ASPECT_RATIO = 0.8;
+const WEBP_QUALITY = 80;
+
+export interface ProcessedCoverVariant {
+  name: CoverVariantName;
+  // Temp file; the caller uploads it and removes it with removeCoverFiles
+  path: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedCover {
+  variants: ProcessedCoverVariant[];
+  blurhash: string;
+  dominantColor: string;
+  width: number;
+  height: number;
+}
+
+const invalidCover = (code: string, message: string, details = {}) =>
+  new ValidationError(message, {
+    code,
+    details: { field: "coverImage", ...details },
+  });
+
+const toHex = ({ r, g, b }: { r: number; g: number; b: number }) =>
+  `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+
+/**
+ * Validate a cover image and derive everything stored for it:
+ *  - minimum dimensions and portrait aspect ratio (after EXIF rotation)
+ *  - thumbnail/medium/large WebP variants next to the original temp file,
+ *    never enlarged beyond the original width
+ *  - a blurhash and dominant colour for placeholders
+ * Throws a 422 ValidationError for covers that are unreadable or do not fit
+ * the rules.
+ */
+export const processCover = async (
+  filePath: string
+): Promise<ProcessedCover> => {
+  let width: number;
+  let height: number;
+  try {
+    const metadata = await sharp(filePath).metadata();
+    ({ width, height } = metadata.autoOrient);
+  } catch {
+    throw invalidCover("INVALID_COVER", "Cover image could not be read");
+  }
+
+  if (width < MIN_COVER_WIDTH || height < MIN_COVER_HEIGHT) {
+    throw invalidCover(
+      "COVER_TOO_SMALL",
+      `Cover must be at least ${MIN_COVER_WIDTH}x${MIN_COVER_HEIGHT} pixels`,
+      { width, height }
+    );
+  }
+
+  const aspectRatio = width / height;
+  if (aspectRatio < MIN_ASPECT_RATIO || aspectRatio > MAX_ASPECT_RATIO) {
+    throw invalidCover(
+      "INVALID_COVER_ASPECT_RATIO",
+      `Cover aspect ratio (width / height) must be between ${MIN_ASPECT_RATIO} and ${MAX_ASPECT_RATIO}`,
+      { width, height }
+    );
+  }
+
+  const variants: ProcessedCoverVariant[] = [];
+  try {
+    for (const [name, targetWidth] of Object.entries(COVER_VARIANTS)) {
+      const variantPath = `${filePath}-${name}.webp`;
+      const info = await sharp(filePath)
+        .autoOrient()
+        .resize({ width: targetWidth, withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toFile(variantPath);
+      variants.push({
+        name: name as CoverVariantName,
+        path: variantPath,
+        width: info.width,
+        height: info.height,
+      });
+    }
+
+    // Blurhash only needs a tiny image; 4x3 components is the usual choice
+    const { data, info } = await sharp(filePath)
+      .autoOrient()
+      .resize(32, 32, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const blurhash = encode(
+      new Uint8ClampedArray(data),
+      info.width,
+      info.height,
+      4,
+      3
+    );
+
+    const { dominant } = await sharp(filePath).stats();
+
+    return { variants, blurhash, dominantColor: toHex(dominant), width, height };
+  } catch (error) {
+    await removeCoverFiles({ variants });
+    throw error;
+  }
+};
+
+/**
+ * Remove the temp variant files written by processCover (best-effort).
+ */
+export const removeCoverFiles = async (cover: Pick<ProcessedCover, "variants">) => {
+  await Promise.all(
+    cover.variants.map((variant) =>
+      fs.promises.unlink(variant.path).catch(() => {})
+    )
+  );
+};
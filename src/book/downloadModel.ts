@@ -0,0 +1,27 @@
+import mongoose from "mongoose";
+import { BOOK_FORMATS, type BookDownload } from "./bookTypes.ts";
+
+// Append-only access log, one document per download
+const downloadSchema = new mongoose.Schema<BookDownload>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+    },
+    book: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Books",
+    },
+    format: { type: String, enum: BOOK_FORMATS, required: true },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+downloadSchema.index({ book: 1, createdAt: -1 });
+downloadSchema.index({ user: 1, createdAt: -1 });
+
+const downloadModel = mongoose.model<BookDownload>("Downloads", downloadSchema);
+
+export default downloadModel;
@@ -0,0 +1,43 @@
+/**
+ * ISBN helpers. Books store ISBNs as bare ISBN-13 digits so the same
+ * edition matches whichever form the client sent.
+ */
+
+export const normalizeIsbn = (value: string) =>
+  value.replace(/[\s-]/g, "").toUpperCase();
+
+// Weights 10..1, X stands for 10 in the check position; sum must be 0 mod 11
+export const isValidIsbn10 = (isbn: string) => {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === "X" ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+};
+
+const isbn13CheckDigit = (first12: string) => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidIsbn13 = (isbn: string) =>
+  /^97[89]\d{10}$/.test(isbn) &&
+  isbn13CheckDigit(isbn.slice(0, 12)) === Number(isbn[12]);
+
+export const isValidIsbn = (isbn: string) =>
+  isValidIsbn10(isbn) || isValidIsbn13(isbn);
+
+/**
+ * Convert a valid ISBN-10 to its 978-prefixed ISBN-13; ISBN-13s pass
+ * through unchanged.
+ */
+export const toIsbn13 = (isbn: string) => {
+  if (isbn.length === 13) return isbn;
+  const first12 = `978${isbn.slice(0, 9)}`;
+  return `${first12}${isbn13CheckDigit(first12)}`;
+};
@@ -0,0 +1,31 @@
+import storage from "../storage/storage.ts";
+import type { AssetRef } from "./bookHistory.ts";
+
+/**
+ * Top-level asset fields of books stored before covers had variants and
+ * books had several renditions. They stay on the document, outside the
+ * schema, until scripts/migrateCovers.ts and scripts/migrateFiles.ts
+ * convert them. Books from before asset IDs were recorded only have the
+ * URLs.
+ */
+export interface LegacyBookAssets {
+  coverImage?: string;
+  coverImageId?: string;
+  file?: string;
+  fileId?: string;
+}
+
+const legacyAsset = (
+  id: string | undefined,
+  url: string | undefined,
+  resourceType: AssetRef["resourceType"]
+): AssetRef | null => {
+  const assetId = id || (url ? storage.assetIdFromUrl(url, resourceType) : null);
+  return assetId ? { assetId, resourceType } : null;
+};
+
+export const legacyCoverAsset = (book: LegacyBookAssets) =>
+  legacyAsset(book.coverImageId, book.coverImage, "image");
+
+export const legacyFileAsset = (book: LegacyBookAssets) =>
+  legacyAsset(book.fileId, book.file, "raw");
@@ -0,0 +1,247 @@
+import { once } from "node:events";
+import fs from "node:fs";
+import path from "node:path";
+import type { NextFunction, Request, Response } from "express";
+import {
+  BadRequestError,
+  InternalError,
+  NotFoundError,
+  ValidationError,
+} from "../errors/appError.ts";
+import bookModel from "../book/bookModel.ts";
+import type { Book, BookFileRendition } from "../book/bookTypes.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import { formatFromMimeType } from "../upload/fileSignature.ts";
+import { cleanupUploadedFiles, uploadDir } from "../upload/uploadMiddleware.ts";
+import type { UploadedFiles } from "../upload/uploadTypes.ts";
+import importJobModel from "./importJobModel.ts";
+import { readManifest } from "./manifest.ts";
+import { runImportJob } from "./importRunner.ts";
+import { toCsvRow } from "./csv.ts";
+import { CATALOGUE_COLUMNS } from "./catalogueTypes.ts";
+import type { exportBooksSchema, importJobIdSchema } from "./catalogueSchemas.ts";
+import logger from "../observability/logger.ts";
+
+// Archives are moved here so they outlive the request's temp file cleanup
+const importsDir = path.resolve(uploadDir, "../imports");
+
+/**
+ * Start a catalogue import (admin only):
+ *  - read the CSV/JSON manifest; a manifest that cannot be read at all is
+ *    rejected right away
+ *  - keep the ZIP for the background job and answer 202 with the job
+ *  - rows are validated and imported one by one by the job, see
+ *    catalogue/importRunner.ts; poll GET /api/books/import/:jobId
+ */
+const startImport = async (req: Request, res: Response, next: NextFunction) => {
+  const files = req.files as UploadedFiles;
+  const manifestFile = files.manifest?.[0];
+  const archiveFile = files.archive?.[0];
+
+  if (!manifestFile || !archiveFile) {
+    return next(new BadRequestError("Missing uploaded files: manifest and/or archive"));
+  }
+
+  let rows;
+  try {
+    rows = await readManifest(
+      manifestFile.path,
+      formatFromMimeType(manifestFile.mimetype) === "json" ? "json" : "csv"
+    );
+  } catch (error) {
+    return next(
+      new ValidationError("Manifest could not be read", {
+        code: "INVALID_MANIFEST",
+        details: { reason: (error as Error).message },
+      })
+    );
+  }
+
+  const createdBy = (req as AuthRequest).userId;
+  let job;
+  let workDir: string;
+  let archivePath: string;
+  try {
+    job = await importJobModel.create({
+      createdBy,
+      total: rows.length,
+      rows: rows.map((row, index) => ({
+        row: index + 1,
+        ...(typeof row.title === "string" ? { title: row.title } : {}),
+      })),
+    });
+
+    workDir = path.join(importsDir, String(job._id));
+    archivePath = path.join(workDir, "archive.zip");
+    await fs.promises.mkdir(workDir, { recursive: true });
+    await fs.promises.rename(archiveFile.path, archivePath);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to start import");
+    await cleanupUploadedFiles(req);
+    return next(new InternalError("Error while starting the import"));
+  }
+
+  void runImportJob(String(job._id), rows, archivePath, workDir, createdBy);
+
+  res.status(202).json({
+    message: "Import started sucessfully",
+    job: {
+      id: job._id,
+      status: job.status,
+      total: job.total,
+    },
+    statusUrl: `${req.baseUrl}/import/${job._id}`,
+  });
+};
+
+const getImportJob = async (req: Request, res: Response, next: NextFunction) => {
+  const { jobId } = (req as ValidatedRequest<typeof importJobIdSchema>).params;
+
+  try {
+    const job = await importJobModel.findById(jobId);
+    if (!job) {
+      return next(
+        new NotFoundError("Import job does not exist", { code: "JOB_NOT_FOUND" })
+      );
+    }
+
+    res.json({
+      message: "Import job fetched sucessfully",
+      job,
+    });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the import job"));
+  }
+};
+
+// The book fields an export reads
+const EXPORT_FIELDS = [
+  "title",
+  "authors",
+  "genre",
+  "description",
+  "isbn",
+  "language",
+  "publicationYear",
+  "tags",
+  "series",
+  "pageCount",
+  "files.format",
+  "author",
+  "status",
+  "hidden",
+  "createdAt",
+];
+
+// Lean reads skip schema defaults, so books stored before these fields
+// existed (or before renditions, for `files`) come back without them
+type ExportedBook = Pick<
+  Book,
+  | "_id"
+  | "title"
+  | "genre"
+  | "description"
+  | "isbn"
+  | "language"
+  | "publicationYear"
+  | "series"
+  | "pageCount"
+  | "author"
+  | "status"
+  | "createdAt"
+> &
+  Partial<Pick<Book, "authors" | "tags" | "hidden">> & {
+    files?: Pick<BookFileRendition, "format">[];
+  };
+
+/**
+ * Flatten a book into the manifest columns, so an export can be edited and
+ * imported again (after adding cover/files paths).
+ */
+const toExportRecord = (book: ExportedBook) => ({
+  id: String(book._id),
+  title: book.title,
+  authors: (book.authors ?? []).join("; "),
+  genre: book.genre,
+  description: book.description,
+  isbn: book.isbn,
+  language: book.language,
+  publicationYear: book.publicationYear,
+  tags: (book.tags ?? []).join("; "),
+  seriesName: book.series?.name,
+  seriesIndex: book.series?.index,
+  pageCount: book.pageCount,
+  formats: (book.files ?? []).map((file) => file.format).join("; "),
+  uploadedBy: String(book.author),
+  status: book.status,
+  hidden: Boolean(book.hidden),
+  createdAt: book.createdAt.toISOString(),
+});
+
+const EXPORT_COLUMNS = [
+  "id",
+  ...CATALOGUE_COLUMNS,
+  "formats",
+  "uploadedBy",
+  "status",
+  "hidden",
+  "createdAt",
+] as const;
+
+/**
+ * Stream the catalogue metadata (admin only) as CSV or JSON. Books are read
+ * through a cursor so the export never holds the whole catalogue in memory.
+ * Trashed books are left out.
+ */
+const exportBooks = async (req: Request, res: Response, next: NextFunction) => {
+  const { format } = (
+    req as unknown as ValidatedRequest<typeof exportBooksSchema>
+  ).query;
+
+  const cursor = bookModel
+    .find({ deletedAt: null }, EXPORT_FIELDS)
+    .sort({ _id: 1 })
+    .lean<ExportedBook>()
+    .cursor();
+
+  const filename = `catalogue-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader(
+    "Content-Type",
+    format === "csv" ? "text/csv; charset=utf-8" : "application/json"
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  // Respect backpressure so a slow client does not buffer the catalogue
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) await once(res, "drain");
+  };
+
+  try {
+    let count = 0;
+    await write(format === "csv" ? toCsvRow([...EXPORT_COLUMNS]) : "[");
+
+    for await (const book of cursor) {
+      const record = toExportRecord(book);
+      await write(
+        format === "csv"
+          ? toCsvRow(EXPORT_COLUMNS.map((column) => record[column]))
+          : `${count ? "," : ""}\n${JSON.stringify(record)}`
+      );
+      count += 1;
+    }
+
+    res.end(format === "csv" ? "" : "\n]\n");
+  } catch (error) {
+    logger.error({ err: error }, "Catalogue export failed");
+    await cursor.close().catch(() => {});
+    // Headers are gone once streaming started; all we can do is cut it off
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    return next(new InternalError("Error while exporting the catalogue"));
+  }
+};
+
+export { startImport, getImportJob, exportBooks };
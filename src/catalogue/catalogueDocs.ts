@@ -0,0 +1,77 @@
+import { z } from "zod";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import { exportBooks, getImportJob, startImport } from "./catalogueController.ts";
+import type { ImportJob, ImportRowResult } from "./catalogueTypes.ts";
+
+const importRow = z.object({
+  row: z.int(),
+  title: z.string().optional(),
+  status: z.enum(["pending", "imported", "failed"]),
+  book: objectIdString.optional(),
+  messages: z.array(z.string()),
+} satisfies Record<keyof ImportRowResult, z.ZodType>);
+
+const importJob = component(
+  "ImportJob",
+  z.looseObject({
+    _id: objectIdString,
+    createdBy: objectIdString,
+    status: z.enum(["pending", "running", "completed", "failed"]),
+    total: z.int(),
+    imported: z.int(),
+    failed: z.int(),
+    rows: z.array(importRow),
+    error: z.string().optional(),
+    startedAt: dateTime.optional(),
+    finishedAt: dateTime.optional(),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  } satisfies Record<keyof ImportJob, z.ZodType>)
+);
+
+export const catalogueDocs: RouteDocs = new Map([
+  [
+    startImport,
+    {
+      summary: "Import books in bulk",
+      description:
+        "Admin only. A CSV/JSON manifest plus a ZIP with the covers and files it references; rows are processed in the background.",
+      status: 202,
+      response: z.object({
+        message,
+        job: z.object({
+          id: objectIdString,
+          status: z.enum(["pending", "running", "completed", "failed"]),
+          total: z.int(),
+        }),
+        statusUrl: z.string(),
+      }),
+    },
+  ],
+  [
+    getImportJob,
+    {
+      summary: "Get an import job",
+      description: "Admin only. Progress and the outcome of every row.",
+      response: z.object({ message, job: importJob }),
+    },
+  ],
+  [
+    exportBooks,
+    {
+      summary: "Export the catalogue",
+      description:
+        "Admin only. Streams every book in the manifest columns, as CSV or a JSON array.",
+      media: {
+        "text/csv": { type: "string" },
+        "application/json": { type: "string" },
+      },
+    },
+  ],
+]);
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+import { createBookSchema } from "../book/bookSchemas.ts";
+import { EXPORT_FORMATS } from "./catalogueTypes.ts";
+
+// Paths inside the uploaded ZIP
+const archivePath = z.string().trim().min(1).max(500);
+
+/**
+ * One manifest row: the same metadata `POST /api/books` accepts, plus the
+ * archive paths of its cover and book files.
+ */
+export const manifestRowSchema = createBookSchema.body.extend({
+  cover: archivePath,
+  files: z.array(archivePath).min(1, "files is required").max(3),
+});
+
+export const importJobIdSchema = {
+  params: z.object({ jobId: objectId("jobId") }),
+};
+
+export const exportBooksSchema = {
+  query: z.object({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+  }),
+};
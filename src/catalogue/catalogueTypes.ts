@@ -0,0 +1,51 @@
+import type mongoose from "mongoose";
+
+export const EXPORT_FORMATS = ["csv", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Manifest and export columns; list columns are ";"-separated in CSV
+export const CATALOGUE_COLUMNS = [
+  "title",
+  "authors",
+  "genre",
+  "description",
+  "isbn",
+  "language",
+  "publicationYear",
+  "tags",
+  "seriesName",
+  "seriesIndex",
+  "pageCount",
+] as const;
+
+export type ImportJobStatus = "pending" | "running" | "completed" | "failed";
+
+export type ImportRowStatus = "pending" | "imported" | "failed";
+
+export interface ImportRowResult {
+  // 1-based position in the manifest, not counting the CSV header or
+  // blank lines
+  row: number;
+  title?: string;
+  status: ImportRowStatus;
+  book?: mongoose.Types.ObjectId;
+  // Why the row failed, one entry per problem
+  messages: string[];
+}
+
+export interface ImportJob {
+  _id: string;
+  createdBy: mongoose.Types.ObjectId;
+  status: ImportJobStatus;
+  total: number;
+  imported: number;
+  failed: number;
+  rows: ImportRowResult[];
+  // Set when the job as a whole failed, e.g. an unreadable archive
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,77 @@
+/**
+ * Minimal RFC 4180 CSV support for catalogue import/export: quoted fields,
+ * escaped quotes ("") and line breaks inside quotes.
+ */
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Unterminated quoted field");
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+/**
+ * Parse CSV into one object per data row, keyed by the header row.
+ */
+export const parseCsvRecords = (text: string) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((values) =>
+    Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]))
+  );
+};
+
+const escapeCsvField = (value: unknown) => {
+  let text = value === undefined || value === null ? "" : String(value);
+  // Keep spreadsheet apps from evaluating exported cells as formulas
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsvRow = (values: unknown[]) =>
+  `${values.map(escapeCsvField).join(",")}\r\n`;
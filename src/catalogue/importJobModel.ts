@@ -0,0 +1,45 @@
+import mongoose from "mongoose";
+import type { ImportJob, ImportRowResult } from "./catalogueTypes.ts";
+
+const importRowSchema = new mongoose.Schema<ImportRowResult>(
+  {
+    row: { type: Number, required: true },
+    title: { type: String },
+    status: {
+      type: String,
+      enum: ["pending", "imported", "failed"],
+      default: "pending",
+    },
+    book: { type: mongoose.Schema.Types.ObjectId, ref: "Books" },
+    messages: { type: [String], default: [] },
+  },
+  { _id: false }
+);
+
+const importJobSchema = new mongoose.Schema<ImportJob>(
+  {
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+    },
+    status: {
+      type: String,
+      enum: ["pending", "running", "completed", "failed"],
+      default: "pending",
+      index: true,
+    },
+    total: { type: Number, required: true },
+    imported: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    rows: { type: [importRowSchema], default: [] },
+    error: { type: String },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+const importJobModel = mongoose.model<ImportJob>("ImportJobs", importJobSchema);
+
+export default importJobModel;
@@ -0,0 +1,236 @@
+import fs from "node:fs";
+import path from "node:path";
+import { AppError } from "../errors/appError.ts";
+import { createBookRecord, type UploadSource } from "../book/bookService.ts";
+import { assertGenreExists } from "../genre/genreController.ts";
+import { BOOK_UPLOAD_FIELDS } from "../upload/uploadMiddleware.ts";
+import { MIME_TYPES, detectFileFormat } from "../upload/fileSignature.ts";
+import type { UploadFieldRule } from "../upload/uploadTypes.ts";
+import importJobModel from "./importJobModel.ts";
+import { manifestRowSchema } from "./catalogueSchemas.ts";
+import { extractEntries, normalizeArchivePath } from "./zipArchive.ts";
+import logger from "../observability/logger.ts";
+
+const coverRule = BOOK_UPLOAD_FIELDS.coverImage as UploadFieldRule;
+const fileRule = BOOK_UPLOAD_FIELDS.file as UploadFieldRule;
+
+// Thrown for a single bad row; the job carries on with the next one
+class RowError extends Error {
+  readonly messages: string[];
+
+  constructor(messages: string[]) {
+    super(messages.join("; "));
+    this.messages = messages;
+  }
+}
+
+/**
+ * Check an extracted file like the upload middleware checks a multipart
+ * one: size, then magic bytes.
+ */
+const loadArchiveFile = async (
+  name: string,
+  rule: UploadFieldRule,
+  extracted: Map<string, string>,
+  tooLarge: Set<string>
+): Promise<UploadSource> => {
+  if (tooLarge.has(name)) {
+    throw new RowError([`${name} is larger than ${rule.maxBytes} bytes`]);
+  }
+  const filePath = extracted.get(name);
+  if (!filePath) {
+    throw new RowError([`${name} is not in the archive`]);
+  }
+
+  const { size } = await fs.promises.stat(filePath);
+  if (size > rule.maxBytes) {
+    throw new RowError([`${name} is larger than ${rule.maxBytes} bytes`]);
+  }
+  const format = await detectFileFormat(filePath);
+  if (!format || !rule.formats.includes(format)) {
+    throw new RowError([
+      `${name} must be one of: ${rule.formats.join(", ")}`,
+    ]);
+  }
+
+  return {
+    path: filePath,
+    filename: path.basename(name),
+    mimetype: MIME_TYPES[format],
+  };
+};
+
+const importRow = async (
+  raw: Record<string, unknown>,
+  createdBy: string,
+  extracted: Map<string, string>,
+  tooLarge: Set<string>
+) => {
+  const parsed = manifestRowSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new RowError(
+      parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "row"}: ${issue.message}`
+      )
+    );
+  }
+  const { cover, files, ...metadata } = parsed.data;
+
+  try {
+    await assertGenreExists(metadata.genre);
+  } catch {
+    throw new RowError([`genre: Unknown genre "${metadata.genre}"`]);
+  }
+
+  const coverFile = await loadArchiveFile(
+    normalizeArchivePath(cover),
+    coverRule,
+    extracted,
+    tooLarge
+  );
+  const bookFiles: UploadSource[] = [];
+  for (const name of files) {
+    bookFiles.push(
+      await loadArchiveFile(normalizeArchivePath(name), fileRule, extracted, tooLarge)
+    );
+  }
+
+  const formats = bookFiles.map((file) => file.mimetype);
+  if (new Set(formats).size !== formats.length) {
+    throw new RowError(["files contains more than one file of the same format"]);
+  }
+
+  try {
+    return await createBookRecord({
+      metadata,
+      author: createdBy,
+      coverFile,
+      bookFiles,
+      // Imports are run by admins, so there is nothing left to review
+      status: "published",
+    });
+  } catch (error) {
+    throw new RowError([
+      error instanceof AppError ? error.message : "Failed to create book",
+    ]);
+  }
+};
+
+// Archive paths referenced by the manifest, so only those get extracted
+const referencedPaths = (rows: Record<string, unknown>[]) => {
+  const names = new Set<string>();
+  for (const row of rows) {
+    for (const value of [row.cover, ...(Array.isArray(row.files) ? row.files : [])]) {
+      if (typeof value === "string") names.add(normalizeArchivePath(value.trim()));
+    }
+  }
+  return names;
+};
+
+/**
+ * Process an import job in the background: extract the referenced archive
+ * entries, then create one book per manifest row, recording each row's
+ * outcome on the job as it goes. `workDir` holds the archive and is removed
+ * when the job ends, whatever the outcome.
+ */
+export const runImportJob = async (
+  jobId: string,
+  rows: Record<string, unknown>[],
+  archivePath: string,
+  workDir: string,
+  createdBy: string
+) => {
+  try {
+    await importJobModel.updateOne(
+      { _id: jobId },
+      { status: "running", startedAt: new Date() }
+    );
+
+    let archive;
+    try {
+      archive = await extractEntries(
+        archivePath,
+        referencedPaths(rows),
+        workDir,
+        Math.max(coverRule.maxBytes, fileRule.maxBytes)
+      );
+    } catch (error) {
+      logger.error({ err: error }, `Import job ${jobId} could not read the archive`);
+      await importJobModel.updateOne(
+        { _id: jobId },
+        {
+          status: "failed",
+          error: "Could not read the archive",
+          finishedAt: new Date(),
+        }
+      );
+      return;
+    }
+    const { extracted, tooLarge } = archive;
+
+    for (const [index, raw] of rows.entries()) {
+      try {
+        const book = await importRow(raw, createdBy, extracted, tooLarge);
+        await importJobModel.updateOne(
+          { _id: jobId },
+          {
+            $set: {
+              [`rows.${index}.status`]: "imported",
+              [`rows.${index}.book`]: book._id,
+            },
+            $inc: { imported: 1 },
+          }
+        );
+      } catch (error) {
+        const messages =
+          error instanceof RowError ? error.messages : ["Unexpected error"];
+        if (!(error instanceof RowError)) {
+          logger.error({ err: error }, `Import job ${jobId} row ${index + 1} failed`);
+        }
+        await importJobModel.updateOne(
+          { _id: jobId },
+          {
+            $set: {
+              [`rows.${index}.status`]: "failed",
+              [`rows.${index}.messages`]: messages,
+            },
+            $inc: { failed: 1 },
+          }
+        );
+      }
+    }
+
+    await importJobModel.updateOne(
+      { _id: jobId },
+      { status: "completed", finishedAt: new Date() }
+    );
+  } catch (error) {
+    logger.error({ err: error }, `Import job ${jobId} failed`);
+    await importJobModel
+      .updateOne(
+        { _id: jobId },
+        {
+          status: "failed",
+          error: "Import stopped unexpectedly",
+          finishedAt: new Date(),
+        }
+      )
+      .catch(() => {});
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Jobs run in-process, so a restart abandons whatever was in flight. Mark
+ * those as failed on startup instead of leaving them "running" forever.
+ */
+export const failInterruptedImports = () =>
+  importJobModel.updateMany(
+    { status: { $in: ["pending", "running"] } },
+    {
+      status: "failed",
+      error: "Interrupted by a server restart",
+      finishedAt: new Date(),
+    }
+  );
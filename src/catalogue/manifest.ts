@@ -0,0 +1,71 @@
+import fs from "node:fs";
+import { parseCsvRecords } from "./csv.ts";
+
+export const MAX_MANIFEST_ROWS = 1000;
+
+const LIST_COLUMNS = ["authors", "tags", "files"];
+
+const splitList = (value: string) =>
+  value
+    .split(";")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Turn a flat CSV record into the shape `manifestRowSchema` expects: empty
+ * cells are dropped, ";"-separated list columns become arrays and the
+ * seriesName/seriesIndex columns become a `series` object.
+ */
+const fromCsvRecord = (record: Record<string, string>) => {
+  const row: Record<string, unknown> = {};
+
+  for (const [column, raw] of Object.entries(record)) {
+    const value = raw.trim();
+    if (!value || column === "seriesName" || column === "seriesIndex") continue;
+    row[column] = LIST_COLUMNS.includes(column) ? splitList(value) : value;
+  }
+
+  const seriesName = record.seriesName?.trim();
+  if (seriesName) {
+    const seriesIndex = record.seriesIndex?.trim();
+    row.series = { name: seriesName, ...(seriesIndex ? { index: seriesIndex } : {}) };
+  }
+
+  return row;
+};
+
+/**
+ * Read an import manifest into unvalidated rows. CSV needs a header row;
+ * JSON is an array of objects (or `{ "books": [...] }`). Throws with a
+ * readable message when the file as a whole is unusable.
+ */
+export const readManifest = async (
+  filePath: string,
+  format: "csv" | "json"
+): Promise<Record<string, unknown>[]> => {
+  const text = await fs.promises.readFile(filePath, "utf8");
+
+  let rows: unknown;
+  if (format === "csv") {
+    rows = parseCsvRecords(text).map(fromCsvRecord);
+  } else {
+    const parsed = JSON.parse(text);
+    rows = Array.isArray(parsed) ? parsed : parsed?.books;
+  }
+
+  if (!Array.isArray(rows)) {
+    throw new Error("Manifest must be a list of books");
+  }
+  if (!rows.length) {
+    throw new Error("Manifest does not contain any books");
+  }
+  if (rows.length > MAX_MANIFEST_ROWS) {
+    throw new Error(`Manifest may contain at most ${MAX_MANIFEST_ROWS} books`);
+  }
+
+  return rows.map((row) =>
+    row && typeof row === "object" && !Array.isArray(row)
+      ? (row as Record<string, unknown>)
+      : {}
+  );
+};
@@ -0,0 +1,64 @@
+import fs from "node:fs";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import yauzl from "yauzl";
+
+export interface ExtractResult {
+  // Archive path -> extracted file on disk
+  extracted: Map<string, string>;
+  // Wanted entries skipped for exceeding the size limit
+  tooLarge: Set<string>;
+}
+
+// Manifests may write "./covers/a.jpg" or "covers\a.jpg" for "covers/a.jpg"
+export const normalizeArchivePath = (name: string) =>
+  name.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+
+/**
+ * Extract only the `wanted` entries of a ZIP into `targetDir`. Extracted
+ * files get generated names, so entry names never decide where anything is
+ * written; entries over `maxBytes` are not read at all.
+ */
+export const extractEntries = async (
+  zipPath: string,
+  wanted: Set<string>,
+  targetDir: string,
+  maxBytes: number
+): Promise<ExtractResult> => {
+  const result: ExtractResult = { extracted: new Map(), tooLarge: new Set() };
+  const zip = await yauzl.openPromise(zipPath, { lazyEntries: true });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const extract = async (entry: yauzl.Entry) => {
+        const name = normalizeArchivePath(entry.fileName);
+        if (!wanted.has(name) || result.extracted.has(name)) return;
+        if (entry.uncompressedSize > maxBytes) {
+          result.tooLarge.add(name);
+          return;
+        }
+
+        const target = path.join(
+          targetDir,
+          `${result.extracted.size}${path.extname(name)}`
+        );
+        await pipeline(
+          await zip.openReadStreamPromise(entry),
+          fs.createWriteStream(target)
+        );
+        result.extracted.set(name, target);
+      };
+
+      zip.on("entry", (entry: yauzl.Entry) => {
+        extract(entry).then(() => zip.readEntry(), reject);
+      });
+      zip.on("end", resolve);
+      zip.on("error", reject);
+      zip.readEntry();
+    });
+  } finally {
+    zip.close();
+  }
+
+  return result;
+};
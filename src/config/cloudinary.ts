@@ -1,10 +1,11 @@
 import { v2 as cloudinary } from "cloudinary";
 import { config } from "./config.ts";
 
+// Only set with STORAGE_DRIVER=cloudinary, where config requires all three
 cloudinary.config({
-  cloud_name: config.cloudinaryCloud!,
-  api_key: config.cloudinaryApiKey!,
-  api_secret: config.cloudinaryApiSecret!,
+  ...(config.cloudinaryCloud ? { cloud_name: config.cloudinaryCloud } : {}),
+  ...(config.cloudinaryApiKey ? { api_key: config.cloudinaryApiKey } : {}),
+  ...(config.cloudinaryApiSecret ? { api_secret: config.cloudinaryApiSecret } : {}),
 });
 
 export default cloudinary;
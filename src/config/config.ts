@@ -1,14 +1,207 @@
 import { config as conf } from "dotenv";
+import { z } from "zod";
 conf();
 
+const positiveInt = (fallback: number) =>
+  z.coerce
+    .number({ error: "must be a positive integer" })
+    .int("must be a positive integer")
+    .positive("must be a positive integer")
+    .default(fallback);
+
+const url = z.url({ protocol: /^https?$/ });
+
+/**
+ * Every environment variable the API reads. Anything invalid stops the
+ * process at startup with one line per problem, rather than surfacing as a
+ * confusing failure on the first request that needs it.
+ */
+const envSchema = z
+  .object({
+    PORT: positiveInt(3000),
+    MONGO_CONNECTION_STRING: z
+      .string()
+      .regex(/^mongodb(\+srv)?:\/\//, "must be a mongodb:// or mongodb+srv:// URL"),
+    NODE_ENV: z.enum(["development", "production", "test"]).optional(),
+    JWT_SECRET: z.string().min(16, "must be at least 16 characters"),
+    ACCESS_TOKEN_EXPIRES_IN: z
+      .string()
+      .regex(/^\d+\s*(ms|s|m|h|d|w|y)?$/, 'must be a duration such as "15m"')
+      .default("15m"),
+    REFRESH_TOKEN_TTL_DAYS: positiveInt(30),
+    CLOUDINARY_API_KEY: z.string().optional(),
+    CLOUDINARY_API_SECRET: z.string().optional(),
+    CLOUDINARY_CLOUD_NAME: z.string().optional(),
+    STORAGE_DRIVER: z.enum(["cloudinary", "local"]).default("cloudinary"),
+    LOCAL_STORAGE_DIR: z.string().optional(),
+    STORAGE_SIGNING_SECRET: z.string().optional(),
+    APP_URL: url.optional(),
+    DOWNLOADS_PER_HOUR: positiveInt(30),
+    DOWNLOAD_URL_TTL_SECONDS: positiveInt(300),
+    CLIENT_URL: url.optional(),
+    MAIL_DRIVER: z.enum(["console", "file", "smtp"]).default("console"),
+    MAIL_FROM: z.string().default("eLib <no-reply@elib.local>"),
+    MAIL_OUTBOX_DIR: z.string().optional(),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: positiveInt(587),
+    SMTP_SECURE: z.enum(["true", "false"]).default("false"),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: z.string().optional(),
+    TRUST_PROXY: z
+      .string()
+      .transform((value) =>
+        value === "true" || value === "false"
+          ? value === "true"
+          : /^\d+$/.test(value)
+            ? Number(value)
+            : value
+      )
+      .default(false),
+    RATE_LIMIT_STORE: z.enum(["memory", "mongo"]).default("memory"),
+    AUTH_REQUESTS_PER_WINDOW: positiveInt(20),
+    BOOK_WRITES_PER_HOUR: positiveInt(60),
+    LOGIN_MAX_ATTEMPTS: positiveInt(5),
+    LOGIN_LOCKOUT_BASE_SECONDS: positiveInt(30),
+    LOGIN_LOCKOUT_MAX_SECONDS: positiveInt(3600),
+    TRASH_RETENTION_DAYS: positiveInt(30),
+    TRASH_PURGE_INTERVAL_MINUTES: positiveInt(60),
+    PUBLISH_SCHEDULER_INTERVAL_SECONDS: positiveInt(60),
+    MAX_RESUMABLE_UPLOAD_BYTES: positiveInt(500 * 1024 * 1024),
+    UPLOAD_CHUNK_BYTES: positiveInt(8 * 1024 * 1024),
+    UPLOAD_SESSION_TTL_HOURS: positiveInt(24),
+    UPLOAD_SESSION_PURGE_INTERVAL_MINUTES: positiveInt(60),
+    LOG_LEVEL: z
+      .enum(["fatal", "error", "warn", "info", "debug", "trace", "silent"])
+      .default("info"),
+    METRICS_TOKEN: z.string().optional(),
+    DB_CONNECT_MAX_ATTEMPTS: positiveInt(10),
+    DB_CONNECT_MAX_DELAY_SECONDS: positiveInt(30),
+    SHUTDOWN_TIMEOUT_SECONDS: positiveInt(30),
+  })
+  .superRefine(
+    (env, ctx) => {
+      const requireFor = (
+        condition: boolean,
+        keys: (keyof typeof env)[],
+        reason: string
+      ) => {
+        for (const key of keys) {
+          if (condition && !env[key]) {
+            ctx.addIssue({
+              code: "custom",
+              path: [key],
+              message: `is required ${reason}`,
+            });
+          }
+        }
+      };
+      requireFor(
+        env.STORAGE_DRIVER === "cloudinary",
+        ["CLOUDINARY_CLOUD_NAME", "CLOUDINARY_API_KEY", "CLOUDINARY_API_SECRET"],
+        'when STORAGE_DRIVER is "cloudinary"'
+      );
+      requireFor(env.MAIL_DRIVER === "smtp", ["SMTP_HOST"], 'when MAIL_DRIVER is "smtp"');
+      requireFor(
+        env.NODE_ENV === "production",
+        ["APP_URL", "CLIENT_URL"],
+        "in production, links in emails and signed URLs are built from it"
+      );
+    },
+    // Report these alongside any other problem, not only once the rest is valid
+    { when: () => true }
+  );
+
+// `FOO=` in an .env file means "not set", not an empty value
+const definedEnv = Object.fromEntries(
+  Object.entries(process.env).filter(([, value]) => value !== "")
+);
+
+const parsed = envSchema.safeParse(definedEnv);
+if (!parsed.success) {
+  // The logger is configured from this module, so this goes to stderr as is
+  console.error(
+    [
+      "Invalid configuration:",
+      ...parsed.error.issues.map((issue) => {
+        const key = issue.path.join(".");
+        const message =
+          issue.code === "invalid_type" && definedEnv[key] === undefined
+            ? "is required"
+            : issue.message;
+        return `  - ${key || "environment"}: ${message}`;
+      }),
+    ].join("\n")
+  );
+  process.exit(1);
+}
+const env = parsed.data;
+
 const _config = {
-  port: process.env.PORT,
-  databaseURL: process.env.MONGO_CONNECTION_STRING,
-  env: process.env.NODE_ENV,
-  jwtSecret: process.env.JWT_SECRET,
-  cloudinaryApiKey: process.env.CLOUDINARY_API_KEY,
-  cloudinaryApiSecret: process.env.CLOUDINARY_API_SECRET,
-  cloudinaryCloud : process.env.CLOUDINARY_CLOUD_NAME
+  port: env.PORT,
+  databaseURL: env.MONGO_CONNECTION_STRING,
+  env: env.NODE_ENV,
+  jwtSecret: env.JWT_SECRET,
+  accessTokenExpiresIn: env.ACCESS_TOKEN_EXPIRES_IN,
+  refreshTokenTtlDays: env.REFRESH_TOKEN_TTL_DAYS,
+  cloudinaryApiKey: env.CLOUDINARY_API_KEY,
+  cloudinaryApiSecret: env.CLOUDINARY_API_SECRET,
+  cloudinaryCloud : env.CLOUDINARY_CLOUD_NAME,
+  // "cloudinary" (default) or "local" for offline dev/CI runs
+  storageDriver: env.STORAGE_DRIVER,
+  localStorageDir: env.LOCAL_STORAGE_DIR,
+  storageSigningSecret: env.STORAGE_SIGNING_SECRET,
+  appUrl: env.APP_URL,
+  // Per-user download budget per hour
+  downloadsPerHour: env.DOWNLOADS_PER_HOUR,
+  downloadUrlTtlSeconds: env.DOWNLOAD_URL_TTL_SECONDS,
+  // Frontend base URL used in password reset links
+  clientUrl: env.CLIENT_URL,
+  // "console" (default), "file" or "smtp"
+  mailDriver: env.MAIL_DRIVER,
+  mailFrom: env.MAIL_FROM,
+  mailOutboxDir: env.MAIL_OUTBOX_DIR,
+  smtpHost: env.SMTP_HOST,
+  smtpPort: env.SMTP_PORT,
+  smtpSecure: env.SMTP_SECURE === "true",
+  smtpUser: env.SMTP_USER,
+  smtpPassword: env.SMTP_PASSWORD,
+  // Express "trust proxy": "true", a hop count, or addresses/subnets such as
+  // "loopback, 10.0.0.0/8". Per-IP rate limits key on the client address
+  // only when the proxies in front of the API are trusted; off by default
+  trustProxy: env.TRUST_PROXY,
+  // "memory" (default) or "mongo" to share counters between instances
+  rateLimitStore: env.RATE_LIMIT_STORE,
+  // Per-IP budget for register/login/password reset per 15 minutes
+  authRequestsPerWindow: env.AUTH_REQUESTS_PER_WINDOW,
+  // Per-user budget for book create/update/delete per hour
+  bookWritesPerHour: env.BOOK_WRITES_PER_HOUR,
+  // Failed logins allowed before an account is locked; each further
+  // failure doubles the lock, up to the max
+  loginMaxAttempts: env.LOGIN_MAX_ATTEMPTS,
+  loginLockoutBaseSeconds: env.LOGIN_LOCKOUT_BASE_SECONDS,
+  loginLockoutMaxSeconds: env.LOGIN_LOCKOUT_MAX_SECONDS,
+  // Deleted books stay restorable this long before the purge job drops them
+  trashRetentionDays: env.TRASH_RETENTION_DAYS,
+  trashPurgeIntervalMinutes: env.TRASH_PURGE_INTERVAL_MINUTES,
+  // How often scheduled books are checked for their publish date
+  publishSchedulerIntervalSeconds: env.PUBLISH_SCHEDULER_INTERVAL_SECONDS,
+  // Chunked uploads: largest accepted book file, largest single chunk, and
+  // how long an idle session is kept before its chunks are deleted
+  maxResumableUploadBytes: env.MAX_RESUMABLE_UPLOAD_BYTES,
+  uploadChunkBytes: env.UPLOAD_CHUNK_BYTES,
+  uploadSessionTtlHours: env.UPLOAD_SESSION_TTL_HOURS,
+  uploadSessionPurgeIntervalMinutes: env.UPLOAD_SESSION_PURGE_INTERVAL_MINUTES,
+  // "fatal", "error", "warn", "info" (default), "debug", "trace" or "silent"
+  logLevel: env.LOG_LEVEL,
+  // When set, GET /metrics requires "Authorization: Bearer <token>"
+  metricsToken: env.METRICS_TOKEN,
+  // Startup connection attempts before giving up, with exponential backoff
+  // between them capped at the max delay
+  dbConnectMaxAttempts: env.DB_CONNECT_MAX_ATTEMPTS,
+  dbConnectMaxDelaySeconds: env.DB_CONNECT_MAX_DELAY_SECONDS,
+  // How long in-flight requests get to finish on SIGTERM/SIGINT before
+  // their connections are closed
+  shutdownTimeoutSeconds: env.SHUTDOWN_TIMEOUT_SECONDS,
 };
 
 export const config = Object.freeze(_config);
@@ -1,21 +1,51 @@
+import { setTimeout as sleep } from "node:timers/promises";
 import mongoose from "mongoose";
 import { config } from "./config.ts";
+import logger from "../observability/logger.ts";
 
-const connectDB = async () => {
-  try {
-    mongoose.connection.on("connected", () => {
-      console.log("Connected to db sucessfully");
-    });
-
-    mongoose.connection.on("error", (err) => {
-      console.log("Error in connecting to database", err);
-    });
+const BASE_RETRY_DELAY_MS = 1000;
 
-    await mongoose.connect(config.databaseURL as string);
-  } catch (error) {
-    console.log("Failed to connect to database: ", error);
-    process.exit(1);
+/**
+ * Connect to MongoDB, retrying with exponential backoff (1s, 2s, 4s, ...
+ * capped at `dbConnectMaxDelaySeconds`) so the API survives starting
+ * before the database. Throws once `dbConnectMaxAttempts` have failed.
+ * After the first successful connection, Mongoose reconnects on its own.
+ */
+const connectDB = async () => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await mongoose.connect(config.databaseURL);
+      logger.info("Connected to db sucessfully");
+      break;
+    } catch (error) {
+      if (attempt >= config.dbConnectMaxAttempts) {
+        throw error;
+      }
+      const delay = Math.min(
+        BASE_RETRY_DELAY_MS * 2 ** (attempt - 1),
+        config.dbConnectMaxDelaySeconds * 1000
+      );
+      logger.warn(
+        { err: error, attempt, retryInMs: delay },
+        "Failed to connect to database, retrying"
+      );
+      await sleep(delay);
+    }
   }
+
+  // Failed attempts above are logged once each; from here on, report the
+  // connection dropping and coming back
+  mongoose.connection.on("disconnected", () => {
+    logger.warn("Disconnected from database");
+  });
+  mongoose.connection.on("reconnected", () => {
+    logger.info("Reconnected to database");
+  });
+  mongoose.connection.on("error", (err) => {
+    logger.error({ err }, "Database connection error");
+  });
 };
 
+export const disconnectDB = () => mongoose.disconnect();
+
 export default connectDB;
@@ -0,0 +1,21 @@
+import express from "express";
+import swaggerUi from "swagger-ui-express";
+import logger from "../observability/logger.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+
+const { document, undocumented } = buildOpenApiDocument();
+if (undocumented.length) {
+  logger.warn({ routes: undocumented }, "Routes missing from the API docs");
+}
+
+// Mounted at /api/docs
+const docsRouter = express.Router();
+
+//Routes
+
+docsRouter.get("/openapi.json", (req, res) => {
+  res.json(document);
+});
+docsRouter.use("/", swaggerUi.serve, swaggerUi.setup(document));
+
+export default docsRouter;
@@ -0,0 +1,27 @@
+import type { z } from "zod";
+
+/**
+ * Hand-written part of an operation in the OpenAPI document. Everything
+ * the route definition already says (path, method, request schemas,
+ * authentication, roles, uploads, rate limits) is read from it instead,
+ * see docs/openapi.ts.
+ */
+type RawBody = { type: "string"; format?: "binary" };
+
+export interface RouteDoc {
+  summary: string;
+  description?: string;
+  // Success status, 200 unless set
+  status?: number;
+  // JSON body of the success response; none for e.g. 204
+  response?: z.ZodType;
+  // Success bodies that are not JSON, by media type (e.g. CSV exports)
+  media?: Record<string, RawBody>;
+  // Request bodies that are neither validated JSON nor a multipart upload
+  requestMedia?: Record<string, RawBody>;
+  // Other outcomes worth calling out, e.g. a 302 or a specific 409
+  responses?: Record<number, string>;
+}
+
+// Keyed by the route's final handler (its controller)
+export type RouteDocs = Map<unknown, RouteDoc>;
@@ -0,0 +1,369 @@
+import { STATUS_CODES } from "node:http";
+import type { Router } from "express";
+import { z } from "zod";
+import adminRouter from "../admin/adminRouter.ts";
+import { adminDocs } from "../admin/adminDocs.ts";
+import bookRouter from "../book/bookRouter.ts";
+import { bookDocs } from "../book/bookDocs.ts";
+import { catalogueDocs } from "../catalogue/catalogueDocs.ts";
+import genreRouter from "../genre/genreRouter.ts";
+import { genreDocs } from "../genre/genreDocs.ts";
+import libraryRouter from "../library/libraryRouter.ts";
+import { libraryDocs } from "../library/libraryDocs.ts";
+import reviewRouter from "../review/reviewRouter.ts";
+import { reviewDocs } from "../review/reviewDocs.ts";
+import uploadSessionRouter from "../upload/uploadSessionRouter.ts";
+import { uploadSessionDocs } from "../upload/uploadSessionDocs.ts";
+import userRouter from "../user/userRouter.ts";
+import { userDocs } from "../user/userDocs.ts";
+import type { UploadFieldRules } from "../upload/uploadTypes.ts";
+import type { RouteDoc, RouteDocs } from "./docsTypes.ts";
+import { component, problem, responseRegistry } from "./responseSchemas.ts";
+import { middlewareMeta, type MiddlewareMeta } from "./routeMeta.ts";
+
+type JsonSchema = Record<string, unknown>;
+
+interface Mount {
+  path: string;
+  router: Router;
+  tag: string;
+  docs: RouteDocs;
+}
+
+/**
+ * Where each router is mounted, as in app.ts. Express does not keep the
+ * path of a mounted router, so nested routers are listed here as well and
+ * skipped while walking their parent.
+ */
+const MOUNTS: Mount[] = [
+  { path: "/api/users", router: userRouter, tag: "users", docs: userDocs },
+  { path: "/api/users/me", router: libraryRouter, tag: "library", docs: libraryDocs },
+  {
+    path: "/api/books",
+    router: bookRouter,
+    tag: "books",
+    docs: new Map([...bookDocs, ...catalogueDocs]),
+  },
+  {
+    path: "/api/books/:bookId/reviews",
+    router: reviewRouter,
+    tag: "reviews",
+    docs: reviewDocs,
+  },
+  { path: "/api/admin", router: adminRouter, tag: "admin", docs: adminDocs },
+  { path: "/api/genres", router: genreRouter, tag: "genres", docs: genreDocs },
+  {
+    path: "/api/uploads",
+    router: uploadSessionRouter,
+    tag: "uploads",
+    docs: uploadSessionDocs,
+  },
+];
+
+// The parts of Express' router internals read here
+interface Layer {
+  handle: { stack?: unknown } & object;
+  route?: { path: string; methods: Record<string, boolean>; stack: Layer[] };
+}
+
+interface Operation {
+  path: string;
+  method: string;
+  handler: { name: string };
+  meta: MiddlewareMeta;
+}
+
+const routerOperations = (mount: Mount): Operation[] => {
+  const operations: Operation[] = [];
+  // `router.use(middleware)` applies to every route defined after it
+  let inherited: MiddlewareMeta = {};
+
+  for (const layer of mount.router.stack as unknown as Layer[]) {
+    if (!layer.route) {
+      if (!("stack" in layer.handle)) {
+        inherited = { ...inherited, ...middlewareMeta(layer.handle) };
+      }
+      continue;
+    }
+
+    const handlers = layer.route.stack.map((l) => l.handle);
+    const meta = handlers.reduce<MiddlewareMeta>(
+      (merged, handler) => ({ ...merged, ...middlewareMeta(handler) }),
+      inherited
+    );
+    const path = (mount.path + layer.route.path)
+      .replace(/\/$/, "")
+      .replace(/:(\w+)/g, "{$1}");
+
+    for (const method of Object.keys(layer.route.methods)) {
+      operations.push({
+        path,
+        method,
+        handler: handlers[handlers.length - 1] as { name: string },
+        meta,
+      });
+    }
+  }
+  return operations;
+};
+
+// Dates travel as ISO strings, and z.int()'s safe-integer bounds only add
+// noise
+const override = ({
+  zodSchema,
+  jsonSchema,
+}: {
+  zodSchema: z.core.$ZodTypes;
+  jsonSchema: JsonSchema;
+}) => {
+  if (zodSchema._zod.def.type === "date") {
+    jsonSchema.type = "string";
+    jsonSchema.format = "date-time";
+  }
+  if (jsonSchema.minimum === Number.MIN_SAFE_INTEGER) delete jsonSchema.minimum;
+  if (jsonSchema.maximum === Number.MAX_SAFE_INTEGER) delete jsonSchema.maximum;
+};
+
+// Keywords of a standalone JSON Schema document that do not belong inside
+// an OpenAPI document
+const withoutSchemaKeywords = (schema: object): JsonSchema => {
+  const json: JsonSchema = { ...schema };
+  delete json.$schema;
+  delete json.$id;
+  return json;
+};
+
+const inputSchema = (schema: z.ZodType) =>
+  withoutSchemaKeywords(
+    z.toJSONSchema(schema, {
+      io: "input",
+      unrepresentable: "any",
+      override,
+    })
+  );
+
+const parameters = (
+  location: "path" | "query",
+  schema: z.ZodType | undefined
+) => {
+  if (!schema) return [];
+  const json = inputSchema(schema);
+  const required = (json.required as string[] | undefined) ?? [];
+  return Object.entries((json.properties ?? {}) as Record<string, JsonSchema>).map(
+    ([name, property]) => ({
+      name,
+      in: location,
+      required: location === "path" || required.includes(name),
+      schema: property,
+    })
+  );
+};
+
+const multipartBody = (rules: UploadFieldRules, body: z.ZodType | undefined) => {
+  const fields = body ? inputSchema(body) : { properties: {}, required: [] };
+  const properties = { ...(fields.properties as JsonSchema) };
+  const required = [...((fields.required as string[] | undefined) ?? [])];
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const file = {
+      type: "string",
+      format: "binary",
+      description: `${rule.formats.join(", ")}; at most ${rule.maxBytes} bytes`,
+    };
+    properties[field] =
+      (rule.maxCount ?? 1) > 1
+        ? { type: "array", items: file, maxItems: rule.maxCount }
+        : file;
+    if (rule.required) required.push(field);
+  }
+  return {
+    type: "object",
+    properties,
+    ...(required.length ? { required } : {}),
+  };
+};
+
+const requestBody = (meta: MiddlewareMeta, doc: RouteDoc | undefined) => {
+  const body = meta.schemas?.body;
+  if (doc?.requestMedia) {
+    return {
+      required: true,
+      content: Object.fromEntries(
+        Object.entries(doc.requestMedia).map(([type, schema]) => [type, { schema }])
+      ),
+    };
+  }
+  if (meta.uploadFields) {
+    return {
+      required: true,
+      content: {
+        "multipart/form-data": { schema: multipartBody(meta.uploadFields, body) },
+      },
+    };
+  }
+  if (body) {
+    return {
+      required: true,
+      content: { "application/json": { schema: inputSchema(body) } },
+    };
+  }
+  return undefined;
+};
+
+const schemaRef = (schema: z.ZodType) => ({
+  $ref: `#/components/schemas/${responseRegistry.get(schema)!.id}`,
+});
+
+const problemResponse = (description: string) => ({
+  description,
+  content: { "application/problem+json": { schema: schemaRef(problem) } },
+});
+
+const pascalCase = (name: string) => name[0]!.toUpperCase() + name.slice(1);
+
+const responses = (
+  operationId: string,
+  operation: Operation,
+  doc: RouteDoc | undefined
+) => {
+  const { meta } = operation;
+  const status = doc?.status ?? 200;
+  const result: Record<string, unknown> = {};
+
+  const content: Record<string, { schema: unknown }> = {};
+  if (doc?.response) {
+    if (!responseRegistry.has(doc.response)) {
+      component(`${pascalCase(operationId)}Response`, doc.response);
+    }
+    content["application/json"] = { schema: schemaRef(doc.response) };
+  }
+  for (const [type, schema] of Object.entries(doc?.media ?? {})) {
+    content[type] = { schema };
+  }
+  result[status] = {
+    description: STATUS_CODES[status] ?? "Success",
+    ...(Object.keys(content).length ? { content } : {}),
+  };
+
+  // Failures every route with these middlewares can produce
+  const standard: [boolean, number, string][] = [
+    [!!(meta.schemas?.params || meta.schemas?.query), 400, "Invalid path or query parameters"],
+    [!!meta.uploadFields, 400, "Invalid or missing upload"],
+    [meta.auth !== undefined, 401, "Missing, invalid or expired access token"],
+    [!!(meta.roles || meta.verifiedEmail), 403, "Not allowed for this user"],
+    [operation.path.includes("{"), 404, "Not found"],
+    [!!meta.uploadFields, 413, "Uploaded file is too large"],
+    [!!meta.uploadFields, 415, "Unsupported file type"],
+    [!!meta.schemas?.body, 422, "Invalid request body"],
+    [!!meta.rateLimited, 429, "Rate limit exceeded"],
+  ];
+  for (const [applies, code, description] of standard) {
+    if (applies && !(code in result)) result[code] = problemResponse(description);
+  }
+
+  for (const [code, description] of Object.entries(doc?.responses ?? {})) {
+    result[code] =
+      Number(code) >= 400 ? problemResponse(description) : { description };
+  }
+  result.default = problemResponse("Unexpected error");
+  return result;
+};
+
+const security = (meta: MiddlewareMeta) => {
+  if (meta.auth === "required") return { security: [{ bearerAuth: [] }] };
+  if (meta.auth === "optional") return { security: [{}, { bearerAuth: [] }] };
+  return {};
+};
+
+/**
+ * OpenAPI 3.1 description of the API, read off the route definitions:
+ * paths and methods from the routers, parameters and bodies from the
+ * validate() schemas, and security, roles, uploads and rate limits from
+ * the middlewares on each route (see docs/routeMeta.ts). Summaries and
+ * response bodies come from each module's *Docs.ts.
+ *
+ * `undocumented` lists routes whose handler has no entry there.
+ */
+export const buildOpenApiDocument = () => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  const operationIds = new Set<string>();
+  const undocumented: string[] = [];
+
+  for (const mount of MOUNTS) {
+    for (const operation of routerOperations(mount)) {
+      const { path, method, handler, meta } = operation;
+      const doc = mount.docs.get(handler);
+      if (!doc) undocumented.push(`${method.toUpperCase()} ${path}`);
+
+      // A controller mounted twice (e.g. deleteBook under /api/admin)
+      let operationId = handler.name;
+      if (operationIds.has(operationId)) {
+        operationId = mount.tag + pascalCase(operationId);
+      }
+      operationIds.add(operationId);
+
+      const pathParameters = parameters("path", meta.schemas?.params);
+      for (const [, name] of path.matchAll(/\{(\w+)\}/g)) {
+        if (!pathParameters.some((p) => p.name === name)) {
+          pathParameters.push({
+            name: name!,
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          });
+        }
+      }
+      const body = requestBody(meta, doc);
+
+      paths[path] ??= {};
+      paths[path][method] = {
+        operationId,
+        tags: [mount.tag],
+        summary: doc?.summary ?? operationId,
+        ...(doc?.description ? { description: doc.description } : {}),
+        ...security(meta),
+        ...(meta.roles ? { "x-required-roles": meta.roles } : {}),
+        parameters: [...pathParameters, ...parameters("query", meta.schemas?.query)],
+        ...(body ? { requestBody: body } : {}),
+        responses: responses(operationId, operation, doc),
+      };
+    }
+  }
+
+  const { schemas } = z.toJSONSchema(responseRegistry, {
+    uri: (id) => `#/components/schemas/${id}`,
+    io: "output",
+    unrepresentable: "any",
+    override,
+  });
+
+  const document = {
+    openapi: "3.1.0",
+    info: {
+      title: "eLib API",
+      version: "1.0.0",
+      description:
+        "Errors are RFC 7807 problem documents (`application/problem+json`).",
+    },
+    tags: MOUNTS.map(({ tag }) => ({ name: tag })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "Access token from /api/users/login or /api/users/refresh",
+        },
+      },
+      schemas: Object.fromEntries(
+        Object.entries(schemas).map(([id, schema]) => [
+          id,
+          withoutSchemaKeywords(schema),
+        ])
+      ),
+    },
+  };
+
+  return { document, undocumented };
+};
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+/**
+ * Response bodies registered here become named schemas under
+ * `components.schemas`, so generated clients get a type per resource
+ * (Book, User, ...) rather than one anonymous shape per endpoint.
+ */
+export const responseRegistry = z.registry<{ id: string }>();
+
+export const component = <T extends z.ZodType>(id: string, schema: T): T => {
+  responseRegistry.add(schema as z.ZodType, { id });
+  return schema;
+};
+
+// How ids and dates look once a document is serialized to JSON
+export const objectIdString = z
+  .string()
+  .regex(/^[0-9a-f]{24}$/)
+  .meta({ description: "MongoDB ObjectId" });
+
+export const dateTime = z.iso.datetime();
+
+export const message = z.string().meta({ description: "Human-readable outcome" });
+
+export const pagination = component(
+  "Pagination",
+  z.object({
+    total: z.int(),
+    page: z.int(),
+    limit: z.int(),
+    totalPages: z.int(),
+  })
+);
+
+// A referenced user after `.populate(field, "name")`
+export const userSummary = component(
+  "UserSummary",
+  z.object({ _id: objectIdString, name: z.string() })
+);
+
+export const fieldError = component(
+  "FieldError",
+  z.object({
+    location: z.enum(["params", "query", "body"]),
+    field: z.string(),
+    message: z.string(),
+  })
+);
+
+/**
+ * Every error response, see middlewares/globalErrorHandler.ts. Some codes
+ * add their own fields next to these.
+ */
+export const problem = component(
+  "Problem",
+  z.looseObject({
+    type: z.string().meta({ examples: ["urn:elib:error:book_not_found"] }),
+    title: z.string(),
+    status: z.int(),
+    detail: z.string(),
+    instance: z.string(),
+    code: z.string().meta({ examples: ["BOOK_NOT_FOUND"] }),
+    requestId: z.string(),
+    correlationId: z
+      .string()
+      .meta({ deprecated: true, description: "Same as requestId" }),
+    errors: z.array(fieldError).optional(),
+  })
+);
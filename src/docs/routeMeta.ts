@@ -0,0 +1,36 @@
+import type { RequestSchemas } from "../middlewares/validate.ts";
+import type { UploadFieldRules } from "../upload/uploadTypes.ts";
+import type { UserRole } from "../user/userTypes.ts";
+
+/**
+ * What a middleware enforces, as far as the API description is concerned.
+ * Middlewares register it when they are created, so the OpenAPI document
+ * is read off the route definitions themselves (see docs/openapi.ts).
+ */
+export interface MiddlewareMeta {
+  // validate()
+  schemas?: RequestSchemas;
+  // createUploadMiddleware()
+  uploadFields?: UploadFieldRules;
+  // authenticate / optionalAuthenticate
+  auth?: "required" | "optional";
+  // authorize()
+  roles?: UserRole[];
+  // requireVerifiedEmail
+  verifiedEmail?: boolean;
+  // rateLimit()
+  rateLimited?: boolean;
+}
+
+const registry = new WeakMap<object, MiddlewareMeta>();
+
+export const describeMiddleware = <T extends object>(
+  middleware: T,
+  meta: MiddlewareMeta
+): T => {
+  registry.set(middleware, { ...registry.get(middleware), ...meta });
+  return middleware;
+};
+
+export const middlewareMeta = (middleware: unknown): MiddlewareMeta =>
+  (typeof middleware === "function" && registry.get(middleware)) || {};
@@ -0,0 +1,110 @@
+export interface AppErrorOptions {
+  // Machine-readable code, e.g. "BOOK_NOT_FOUND"; defaults per class
+  code?: string;
+  // Extra members merged into the problem+json body (e.g. `errors`)
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error the API raises on purpose. The global error
+ * handler turns these into RFC 7807 problem+json responses using `status`,
+ * `code` and `message`; anything else is reported as a 500.
+ */
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details: Record<string, unknown> | undefined;
+
+  constructor(
+    status: number,
+    defaultCode: string,
+    message: string,
+    options: AppErrorOptions = {}
+  ) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = options.code ?? defaultCode;
+    this.details = options.details;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message = "Bad request", options?: AppErrorOptions) {
+    super(400, "BAD_REQUEST", message, options);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required", options?: AppErrorOptions) {
+    super(401, "UNAUTHENTICATED", message, options);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Forbidden", options?: AppErrorOptions) {
+    super(403, "FORBIDDEN", message, options);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Not found", options?: AppErrorOptions) {
+    super(404, "NOT_FOUND", message, options);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message = "Conflict", options?: AppErrorOptions) {
+    super(409, "CONFLICT", message, options);
+  }
+}
+
+export class PayloadTooLargeError extends AppError {
+  constructor(message = "Payload too large", options?: AppErrorOptions) {
+    super(413, "PAYLOAD_TOO_LARGE", message, options);
+  }
+}
+
+export class UnsupportedMediaTypeError extends AppError {
+  constructor(message = "Unsupported media type", options?: AppErrorOptions) {
+    super(415, "UNSUPPORTED_MEDIA_TYPE", message, options);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message = "Validation failed", options?: AppErrorOptions) {
+    super(422, "VALIDATION_FAILED", message, options);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  // Seconds until the client may retry, sent as the Retry-After header
+  readonly retryAfter: number | undefined;
+
+  constructor(
+    message = "Too many requests",
+    options: AppErrorOptions & { retryAfter?: number } = {}
+  ) {
+    super(429, "TOO_MANY_REQUESTS", message, options);
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+export class InternalError extends AppError {
+  constructor(message = "Internal server error", options?: AppErrorOptions) {
+    super(500, "INTERNAL_ERROR", message, options);
+  }
+}
+
+export class UpstreamError extends AppError {
+  constructor(message = "Upstream service failed", options?: AppErrorOptions) {
+    super(502, "UPSTREAM_ERROR", message, options);
+  }
+}
+
+export class ServiceUnavailableError extends AppError {
+  constructor(message = "Service unavailable", options?: AppErrorOptions) {
+    super(503, "SERVICE_UNAVAILABLE", message, options);
+  }
+}
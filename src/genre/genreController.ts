@@ -0,0 +1,202 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  AppError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+  ValidationError,
+} from "../errors/appError.ts";
+import bookModel from "../book/bookModel.ts";
+import genreModel from "./genreModel.ts";
+import { DEFAULT_GENRES } from "./genreTypes.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import type {
+  createGenreSchema,
+  genreSlugSchema,
+  updateGenreSchema,
+} from "./genreSchemas.ts";
+import logger from "../observability/logger.ts";
+
+const genreNotFound = () =>
+  new NotFoundError("Genre does not exist", { code: "GENRE_NOT_FOUND" });
+
+const invalidField = (field: string, message: string) =>
+  new ValidationError("Request validation failed", {
+    details: { errors: [{ location: "body", field, message }] },
+  });
+
+/**
+ * Insert any missing default genre. Existing genres are left untouched, so
+ * admins can rename or re-parent them freely.
+ */
+export const ensureDefaultGenres = async () => {
+  await genreModel.bulkWrite(
+    DEFAULT_GENRES.map((genre) => ({
+      updateOne: {
+        filter: { slug: genre.slug },
+        update: { $setOnInsert: genre },
+        upsert: true,
+      },
+    }))
+  );
+};
+
+/**
+ * Throw a 422 unless `slug` names a genre in the taxonomy. Used before a
+ * book is created or its genre changed.
+ */
+export const assertGenreExists = async (slug: string) => {
+  if (!(await genreModel.exists({ slug }))) {
+    throw invalidField("genre", `Unknown genre "${slug}"`);
+  }
+};
+
+/**
+ * A genre and its sub-genres, so filtering by "fiction" also finds books
+ * filed under "fantasy".
+ */
+export const genreWithChildren = async (slug: string) => {
+  const children = await genreModel.find({ parent: slug }).distinct("slug");
+  return [slug, ...children];
+};
+
+/**
+ * A parent must exist and be top-level, keeping the taxonomy two levels deep.
+ */
+const assertValidParent = async (parent: string, slug: string) => {
+  if (parent === slug) {
+    throw invalidField("parent", "A genre cannot be its own parent");
+  }
+  const parentGenre = await genreModel.findOne({ slug: parent });
+  if (!parentGenre) {
+    throw invalidField("parent", `Unknown genre "${parent}"`);
+  }
+  if (parentGenre.parent) {
+    throw invalidField("parent", "Sub-genres cannot have sub-genres");
+  }
+};
+
+/**
+ * List the taxonomy as top-level genres with their sub-genres nested.
+ */
+const listGenres = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const genres = await genreModel.find().sort({ name: 1 }).lean();
+
+    res.json({
+      message: "Genres fetched sucessfully",
+      genres: genres
+        .filter((genre) => !genre.parent)
+        .map((genre) => ({
+          ...genre,
+          children: genres.filter((child) => child.parent === genre.slug),
+        })),
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list genres");
+    return next(new InternalError("Failed to fetch genres"));
+  }
+};
+
+const createGenre = async (req: Request, res: Response, next: NextFunction) => {
+  const { slug, name, description, parent } = (
+    req as ValidatedRequest<typeof createGenreSchema>
+  ).body;
+
+  let genre;
+  try {
+    if (parent) await assertValidParent(parent, slug);
+    genre = await genreModel.create({
+      slug,
+      name,
+      ...(description !== undefined ? { description } : {}),
+      ...(parent ? { parent } : {}),
+    });
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    if ((error as { code?: number })?.code === 11000) {
+      return next(
+        new ConflictError("Genre already exists", { code: "GENRE_EXISTS" })
+      );
+    }
+    logger.error({ err: error }, "Failed to create genre");
+    return next(new InternalError("Error while creating genre"));
+  }
+
+  res.status(201).json({
+    message: "Genre created sucessfully",
+    genre,
+  });
+};
+
+const updateGenre = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, body } =
+    req as unknown as ValidatedRequest<typeof updateGenreSchema>;
+  const { parent, ...fields } = body;
+
+  let genre;
+  try {
+    if (parent) {
+      await assertValidParent(parent, params.slug);
+      if (await genreModel.exists({ parent: params.slug })) {
+        throw invalidField("parent", "A genre with sub-genres cannot have a parent");
+      }
+    }
+
+    genre = await genreModel.findOneAndUpdate(
+      { slug: params.slug },
+      {
+        $set: { ...fields, ...(parent ? { parent } : {}) },
+        ...(parent === null ? { $unset: { parent: 1 } } : {}),
+      },
+      { new: true }
+    );
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to update genre");
+    return next(new InternalError("Error while updating genre"));
+  }
+
+  if (!genre) {
+    return next(genreNotFound());
+  }
+
+  res.json({
+    message: "Genre updated sucessfully",
+    genre,
+  });
+};
+
+/**
+ * Delete a genre. Refused while books or sub-genres still use it; move them
+ * first.
+ */
+const deleteGenre = async (req: Request, res: Response, next: NextFunction) => {
+  const { slug } = (req as ValidatedRequest<typeof genreSlugSchema>).params;
+
+  try {
+    if (!(await genreModel.exists({ slug }))) {
+      return next(genreNotFound());
+    }
+
+    if (
+      (await bookModel.exists({ genre: slug })) ||
+      (await genreModel.exists({ parent: slug }))
+    ) {
+      return next(
+        new ConflictError("Genre is still used by books or sub-genres", {
+          code: "GENRE_IN_USE",
+        })
+      );
+    }
+
+    await genreModel.deleteOne({ slug });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to delete genre");
+    return next(new InternalError("Error while deleting genre"));
+  }
+
+  res.status(204).end();
+};
+
+export { listGenres, createGenre, updateGenre, deleteGenre };
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  createGenre,
+  deleteGenre,
+  listGenres,
+  updateGenre,
+} from "./genreController.ts";
+import type { Genre } from "./genreTypes.ts";
+
+const genreFields = {
+  _id: objectIdString,
+  slug: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  parent: z.string().optional().meta({ description: "Slug of the parent genre" }),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+} satisfies Record<keyof Genre, z.ZodType>;
+
+const genre = component("Genre", z.looseObject(genreFields));
+
+const genreResponse = z.object({ message, genre });
+
+export const genreDocs: RouteDocs = new Map([
+  [
+    listGenres,
+    {
+      summary: "List genres",
+      description: "Top-level genres by name, each with its sub-genres.",
+      response: z.object({
+        message,
+        genres: z.array(
+          component(
+            "GenreTree",
+            z.looseObject({ ...genreFields, children: z.array(genre) })
+          )
+        ),
+      }),
+    },
+  ],
+  [
+    createGenre,
+    {
+      summary: "Create a genre",
+      status: 201,
+      response: genreResponse,
+      responses: { 409: "A genre with this slug already exists" },
+    },
+  ],
+  [updateGenre, { summary: "Update a genre", response: genreResponse }],
+  [
+    deleteGenre,
+    {
+      summary: "Delete a genre",
+      status: 204,
+      responses: { 409: "The genre is still used by books or sub-genres" },
+    },
+  ],
+]);
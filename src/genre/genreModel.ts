@@ -0,0 +1,16 @@
+import mongoose from "mongoose";
+import type { Genre } from "./genreTypes.ts";
+
+const genreSchema = new mongoose.Schema<Genre>(
+  {
+    slug: { type: String, required: true, unique: true },
+    name: { type: String, required: true },
+    description: { type: String },
+    parent: { type: String, index: true },
+  },
+  { timestamps: true }
+);
+
+const genreModel = mongoose.model<Genre>("Genres", genreSchema);
+
+export default genreModel;
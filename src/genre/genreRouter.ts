@@ -0,0 +1,17 @@
+import express from "express";
+import { createGenre, deleteGenre, listGenres, updateGenre } from "./genreController.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import authorize from "../middlewares/authorize.ts";
+import validate from "../middlewares/validate.ts";
+import { createGenreSchema, genreSlugSchema, updateGenreSchema } from "./genreSchemas.ts";
+
+const genreRouter = express.Router();
+
+//Routes
+
+genreRouter.get("/", listGenres)
+genreRouter.post("/", authenticate, authorize("admin"), validate(createGenreSchema), createGenre)
+genreRouter.patch("/:slug", authenticate, authorize("admin"), validate(updateGenreSchema), updateGenre)
+genreRouter.delete("/:slug", authenticate, authorize("admin"), validate(genreSlugSchema), deleteGenre)
+
+export default genreRouter;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+// Lowercase, hyphen-separated, e.g. "science-fiction"
+export const genreSlug = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((v) => v.replace(/[\s_]+/g, "-"))
+  .pipe(
+    z
+      .string()
+      .min(1, "genre is required")
+      .max(60)
+      .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, "genre must be a slug like science-fiction")
+  );
+
+const name = z.string().trim().min(1, "name is required").max(100);
+const description = z.string().trim().max(500);
+
+export const genreSlugSchema = {
+  params: z.object({ slug: genreSlug }),
+};
+
+export const createGenreSchema = {
+  body: z.object({
+    slug: genreSlug,
+    name,
+    description: description.optional(),
+    parent: genreSlug.optional(),
+  }),
+};
+
+export const updateGenreSchema = {
+  params: genreSlugSchema.params,
+  body: z
+    .object({
+      name: name.optional(),
+      description: description.optional(),
+      parent: genreSlug.nullable().optional(),
+    })
+    .refine((v) => Object.keys(v).length > 0, {
+      message: "Provide at least one field to update",
+    }),
+};
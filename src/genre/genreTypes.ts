@@ -0,0 +1,27 @@
+// Seeded on startup so a fresh install can accept books right away
+export const DEFAULT_GENRES = [
+  { slug: "fiction", name: "Fiction" },
+  { slug: "fantasy", name: "Fantasy", parent: "fiction" },
+  { slug: "science-fiction", name: "Science Fiction", parent: "fiction" },
+  { slug: "mystery", name: "Mystery", parent: "fiction" },
+  { slug: "romance", name: "Romance", parent: "fiction" },
+  { slug: "non-fiction", name: "Non-fiction" },
+  { slug: "biography", name: "Biography", parent: "non-fiction" },
+  { slug: "history", name: "History", parent: "non-fiction" },
+  { slug: "science", name: "Science", parent: "non-fiction" },
+  { slug: "technology", name: "Technology", parent: "non-fiction" },
+  { slug: "children", name: "Children" },
+  { slug: "poetry", name: "Poetry" },
+] as const;
+
+export interface Genre {
+  _id: string;
+  // Stable identifier stored on books and used in URLs
+  slug: string;
+  name: string;
+  description?: string;
+  // Slug of the parent genre; the taxonomy is two levels deep
+  parent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,106 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import storage from "../storage/storage.ts";
+import logger from "../observability/logger.ts";
+
+type CheckStatus = "up" | "down";
+
+interface CheckResult {
+  status: CheckStatus;
+  latencyMs: number;
+}
+
+const CHECK_TIMEOUT_MS = 3000;
+
+// Cloudinary rate limits its Admin API (ping included) per hour, so the
+// storage check runs at most this often and probes in between reuse it
+const STORAGE_CHECK_TTL_MS = 30 * 1000;
+
+let shuttingDown = false;
+
+/**
+ * Called once shutdown starts, so /readyz takes the instance out of the
+ * load balancer while in-flight requests drain.
+ */
+export const markShuttingDown = () => {
+  shuttingDown = true;
+};
+
+const runCheck = async (
+  name: string,
+  check: () => Promise<unknown>
+): Promise<CheckResult> => {
+  const start = performance.now();
+  const latency = () => Math.round(performance.now() - start);
+  try {
+    await Promise.race([
+      check(),
+      sleep(CHECK_TIMEOUT_MS, undefined, { ref: false }).then(() => {
+        throw new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`);
+      }),
+    ]);
+    return { status: "up", latencyMs: latency() };
+  } catch (error) {
+    logger.warn({ err: error }, `Readiness check "${name}" failed`);
+    return { status: "down", latencyMs: latency() };
+  }
+};
+
+const checkDatabase = () =>
+  runCheck("database", async () => {
+    const db = mongoose.connection.db;
+    if (mongoose.connection.readyState !== 1 || !db) {
+      throw new Error("Not connected");
+    }
+    await db.admin().ping();
+  });
+
+let storageCheck: { at: number; result: Promise<CheckResult> } | undefined;
+
+const checkStorage = () => {
+  if (!storageCheck || Date.now() - storageCheck.at > STORAGE_CHECK_TTL_MS) {
+    storageCheck = {
+      at: Date.now(),
+      result: runCheck("storage", () => storage.ping()),
+    };
+  }
+  return storageCheck.result;
+};
+
+/**
+ * GET /healthz: the process is up and serving requests. Does not look at
+ * dependencies, so a database outage does not get the instance restarted.
+ */
+const liveness = (req: Request, res: Response) => {
+  res.json({
+    status: "ok",
+    uptime: Math.round(process.uptime()),
+  });
+};
+
+/**
+ * GET /readyz: the instance can serve traffic, i.e. the database and the
+ * storage backend answer and it is not shutting down. 503 otherwise.
+ */
+const readiness = async (req: Request, res: Response) => {
+  if (shuttingDown) {
+    return res.status(503).json({ status: "shutting_down" });
+  }
+
+  const [database, storageResult] = await Promise.all([
+    checkDatabase(),
+    checkStorage(),
+  ]);
+  const ready = database.status === "up" && storageResult.status === "up";
+
+  res.status(ready ? 200 : 503).json({
+    status: ready ? "ready" : "not_ready",
+    checks: {
+      database,
+      storage: { driver: storage.name, ...storageResult },
+    },
+  });
+};
+
+export { liveness, readiness };
@@ -0,0 +1,11 @@
+import express from "express";
+import { liveness, readiness } from "./healthController.ts";
+
+const healthRouter = express.Router();
+
+//Routes
+
+healthRouter.get("/healthz", liveness)
+healthRouter.get("/readyz", readiness)
+
+export default healthRouter;
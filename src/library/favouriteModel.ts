@@ -0,0 +1,17 @@
+import mongoose from "mongoose";
+import type { Favourite } from "./libraryTypes.ts";
+
+const favouriteSchema = new mongoose.Schema<Favourite>(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Users" },
+    book: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Books" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+favouriteSchema.index({ user: 1, book: 1 }, { unique: true });
+favouriteSchema.index({ book: 1 });
+
+const favouriteModel = mongoose.model<Favourite>("Favourites", favouriteSchema);
+
+export default favouriteModel;
@@ -0,0 +1,422 @@
+import type { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import {
+  ConflictError,
+  InternalError,
+  NotFoundError,
+} from "../errors/appError.ts";
+import bookModel from "../book/bookModel.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import favouriteModel from "./favouriteModel.ts";
+import { DEFAULT_SHELVES } from "./libraryTypes.ts";
+import type {
+  addShelfBookSchema,
+  createShelfSchema,
+  libraryBookSchema,
+  renameShelfSchema,
+  shelfBookSchema,
+  shelfIdSchema,
+  updateProgressSchema,
+} from "./librarySchemas.ts";
+import readingProgressModel from "./readingProgressModel.ts";
+import shelfModel from "./shelfModel.ts";
+import logger from "../observability/logger.ts";
+
+export const BOOK_SUMMARY_FIELDS = "title author genre cover ratingAverage reviewCount";
+
+const isDuplicateKey = (error: unknown) =>
+  (error as { code?: number })?.code === 11000;
+
+// Books a library can hold: published, listed and not in the trash. Books
+// that stop matching stay referenced but are left out of every listing
+const LISTED_BOOK = { status: "published", hidden: { $ne: true }, deletedAt: null };
+
+const populateListedBook = (path: string) => ({
+  path,
+  select: BOOK_SUMMARY_FIELDS,
+  match: LISTED_BOOK,
+});
+
+const findVisibleBook = (bookId: string) =>
+  bookModel.findOne({ _id: bookId, ...LISTED_BOOK });
+
+const bookNotFound = () =>
+  new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" });
+
+const shelfNotFound = () =>
+  new NotFoundError("Shelf not found", { code: "SHELF_NOT_FOUND" });
+
+/**
+ * Remove every reference to a book from shelves, favourites and reading
+ * progress. Called when a book is deleted.
+ */
+export const removeBookFromLibraries = async (bookId: string) => {
+  await Promise.all([
+    shelfModel.updateMany(
+      { "books.book": bookId },
+      { $pull: { books: { book: bookId } } }
+    ),
+    favouriteModel.deleteMany({ book: bookId }),
+    readingProgressModel.deleteMany({ book: bookId }),
+  ]);
+};
+
+/**
+ * Remove all shelves, favourites and reading progress of a user. Called when
+ * an account is deleted.
+ */
+export const removeUserLibrary = async (userId: string) => {
+  await Promise.all([
+    shelfModel.deleteMany({ user: userId }),
+    favouriteModel.deleteMany({ user: userId }),
+    readingProgressModel.deleteMany({ user: userId }),
+  ]);
+};
+
+/**
+ * List the current user's shelves, creating the default ones on first use.
+ */
+const listShelves = async (req: Request, res: Response, next: NextFunction) => {
+  const userId = (req as AuthRequest).userId;
+
+  try {
+    if (!(await shelfModel.exists({ user: userId }))) {
+      await shelfModel
+        .insertMany(
+          DEFAULT_SHELVES.map((name) => ({ user: userId, name })),
+          { ordered: false }
+        )
+        // A concurrent request may have created them already
+        .catch((error) => {
+          if (!isDuplicateKey(error)) throw error;
+        });
+    }
+
+    const shelves = await shelfModel
+      .find({ user: userId })
+      .sort({ createdAt: 1 })
+      .populate(populateListedBook("books.book"));
+    for (const shelf of shelves) {
+      shelf.books = shelf.books.filter((entry) => entry.book);
+    }
+
+    res.json({
+      message: "Shelves fetched sucessfully",
+      shelves,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list shelves");
+    return next(new InternalError("Failed to fetch shelves"));
+  }
+};
+
+const createShelf = async (req: Request, res: Response, next: NextFunction) => {
+  const { name } = (req as ValidatedRequest<typeof createShelfSchema>).body;
+
+  try {
+    const shelf = await shelfModel.create({
+      user: (req as AuthRequest).userId,
+      name,
+    });
+    res.status(201).json({
+      message: "Shelf created sucessfully",
+      shelf,
+    });
+  } catch (error) {
+    if (isDuplicateKey(error)) {
+      return next(
+        new ConflictError("You already have a shelf with this name", {
+          code: "SHELF_EXISTS",
+        })
+      );
+    }
+    logger.error({ err: error }, "Failed to create shelf");
+    return next(new InternalError("Error while creating the shelf"));
+  }
+};
+
+const renameShelf = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof renameShelfSchema
+  >;
+
+  try {
+    const shelf = await shelfModel.findOneAndUpdate(
+      { _id: params.shelfId, user: (req as AuthRequest).userId },
+      { name: body.name },
+      { new: true }
+    );
+    if (!shelf) return next(shelfNotFound());
+
+    res.json({
+      message: "Shelf renamed sucessfully",
+      shelf,
+    });
+  } catch (error) {
+    if (isDuplicateKey(error)) {
+      return next(
+        new ConflictError("You already have a shelf with this name", {
+          code: "SHELF_EXISTS",
+        })
+      );
+    }
+    logger.error({ err: error }, "Failed to rename shelf");
+    return next(new InternalError("Error while renaming the shelf"));
+  }
+};
+
+const deleteShelf = async (req: Request, res: Response, next: NextFunction) => {
+  const { shelfId } = (req as ValidatedRequest<typeof shelfIdSchema>).params;
+
+  try {
+    const result = await shelfModel.deleteOne({
+      _id: shelfId,
+      user: (req as AuthRequest).userId,
+    });
+    if (!result.deletedCount) return next(shelfNotFound());
+  } catch (error) {
+    logger.error({ err: error }, "Failed to delete shelf");
+    return next(new InternalError("Error while deleting the shelf"));
+  }
+
+  res.status(204).end();
+};
+
+/**
+ * Add a book to a shelf. Adding a book that is already there is a no-op.
+ */
+const addBookToShelf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof addShelfBookSchema
+  >;
+
+  try {
+    if (!(await findVisibleBook(body.bookId))) return next(bookNotFound());
+
+    const shelf = await shelfModel.findOneAndUpdate(
+      {
+        _id: params.shelfId,
+        user: (req as AuthRequest).userId,
+        "books.book": { $ne: body.bookId },
+      },
+      { $push: { books: { book: body.bookId, addedAt: new Date() } } },
+      { new: true }
+    );
+
+    if (!shelf) {
+      const existing = await shelfModel.findOne({
+        _id: params.shelfId,
+        user: (req as AuthRequest).userId,
+      });
+      if (!existing) return next(shelfNotFound());
+      return res.json({ message: "Book is already on this shelf", shelf: existing });
+    }
+
+    res.json({
+      message: "Book added to shelf sucessfully",
+      shelf,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to add book to shelf");
+    return next(new InternalError("Error while updating the shelf"));
+  }
+};
+
+const removeBookFromShelf = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { shelfId, bookId } = (
+    req as ValidatedRequest<typeof shelfBookSchema>
+  ).params;
+
+  try {
+    const shelf = await shelfModel.findOneAndUpdate(
+      { _id: shelfId, user: (req as AuthRequest).userId },
+      { $pull: { books: { book: bookId } } }
+    );
+    if (!shelf) return next(shelfNotFound());
+  } catch (error) {
+    logger.error({ err: error }, "Failed to remove book from shelf");
+    return next(new InternalError("Error while updating the shelf"));
+  }
+
+  res.status(204).end();
+};
+
+const listFavourites = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const favourites = await favouriteModel
+      .find({ user: (req as AuthRequest).userId })
+      .sort({ createdAt: -1 })
+      .populate(populateListedBook("book"));
+
+    res.json({
+      message: "Favourites fetched sucessfully",
+      favourites: favourites.filter((favourite) => favourite.book),
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list favourites");
+    return next(new InternalError("Failed to fetch favourites"));
+  }
+};
+
+/**
+ * Mark a book as favourite (idempotent).
+ */
+const addFavourite = async (req: Request, res: Response, next: NextFunction) => {
+  const { bookId } = (req as ValidatedRequest<typeof libraryBookSchema>).params;
+  const userId = (req as AuthRequest).userId;
+
+  try {
+    if (!(await findVisibleBook(bookId))) return next(bookNotFound());
+
+    await favouriteModel.updateOne(
+      { user: userId, book: bookId },
+      { $setOnInsert: { user: userId, book: bookId } },
+      { upsert: true }
+    );
+  } catch (error) {
+    if (!isDuplicateKey(error)) {
+      logger.error({ err: error }, "Failed to add favourite");
+      return next(new InternalError("Error while adding favourite"));
+    }
+  }
+
+  res.status(204).end();
+};
+
+const removeFavourite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { bookId } = (req as ValidatedRequest<typeof libraryBookSchema>).params;
+
+  try {
+    await favouriteModel.deleteOne({
+      user: (req as AuthRequest).userId,
+      book: bookId,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to remove favourite");
+    return next(new InternalError("Error while removing favourite"));
+  }
+
+  res.status(204).end();
+};
+
+const listProgress = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const progress = await readingProgressModel
+      .find({ user: (req as AuthRequest).userId })
+      .sort({ updatedAt: -1 })
+      .populate(populateListedBook("book"));
+
+    res.json({
+      message: "Reading progress fetched sucessfully",
+      progress: progress.filter((entry) => entry.book),
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list reading progress");
+    return next(new InternalError("Failed to fetch reading progress"));
+  }
+};
+
+const getProgress = async (req: Request, res: Response, next: NextFunction) => {
+  const { bookId } = (req as ValidatedRequest<typeof libraryBookSchema>).params;
+
+  try {
+    const progress = await readingProgressModel.findOne({
+      user: (req as AuthRequest).userId,
+      book: bookId,
+    });
+    if (!progress) {
+      return next(
+        new NotFoundError("No reading progress for this book", {
+          code: "PROGRESS_NOT_FOUND",
+        })
+      );
+    }
+
+    res.json({
+      message: "Reading progress fetched sucessfully",
+      progress,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to fetch reading progress");
+    return next(new InternalError("Failed to fetch reading progress"));
+  }
+};
+
+/**
+ * Record reading progress. When only `lastPage` is sent, the percentage is
+ * derived from the page count of the book's PDF rendition if known.
+ */
+const updateProgress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof updateProgressSchema
+  >;
+  const userId = (req as AuthRequest).userId;
+
+  try {
+    const book = await findVisibleBook(params.bookId);
+    if (!book) return next(bookNotFound());
+
+    let percentage = body.percentage;
+    if (percentage === undefined && body.lastPage !== undefined) {
+      const pageCount = book.files.find((f) => f.pageCount)?.pageCount;
+      if (pageCount) {
+        percentage = Math.min(100, Math.round((body.lastPage / pageCount) * 10000) / 100);
+      }
+    }
+
+    const progress = await readingProgressModel.findOneAndUpdate(
+      { user: userId, book: new mongoose.Types.ObjectId(params.bookId) },
+      {
+        $set: {
+          ...(body.lastPage !== undefined ? { lastPage: body.lastPage } : {}),
+          ...(percentage !== undefined ? { percentage } : {}),
+        },
+      },
+      { new: true, upsert: true, setDefaultsOnInsert: true }
+    );
+
+    res.json({
+      message: "Reading progress saved sucessfully",
+      progress,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to save reading progress");
+    return next(new InternalError("Error while saving reading progress"));
+  }
+};
+
+export {
+  listShelves,
+  createShelf,
+  renameShelf,
+  deleteShelf,
+  addBookToShelf,
+  removeBookFromShelf,
+  listFavourites,
+  addFavourite,
+  removeFavourite,
+  listProgress,
+  getProgress,
+  updateProgress,
+};
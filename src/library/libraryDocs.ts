@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { bookSchema } from "../book/bookDocs.ts";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  BOOK_SUMMARY_FIELDS,
+  addBookToShelf,
+  addFavourite,
+  createShelf,
+  deleteShelf,
+  getProgress,
+  listFavourites,
+  listProgress,
+  listShelves,
+  removeBookFromShelf,
+  removeFavourite,
+  renameShelf,
+  updateProgress,
+} from "./libraryController.ts";
+import type {
+  Favourite,
+  ReadingProgress,
+  Shelf,
+  ShelfEntry,
+} from "./libraryTypes.ts";
+
+// Books as populated into shelves, favourites and progress
+const bookSummary = component(
+  "BookSummary",
+  bookSchema.pick({
+    _id: true,
+    ...Object.fromEntries(
+      BOOK_SUMMARY_FIELDS.split(" ").map((field) => [field, true])
+    ),
+  })
+);
+
+const shelfFields = {
+  _id: objectIdString,
+  user: objectIdString,
+  name: z.string(),
+  books: z.array(
+    z.object({
+      book: z.union([objectIdString, bookSummary]),
+      addedAt: dateTime,
+    } satisfies Record<keyof ShelfEntry, z.ZodType>)
+  ),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+} satisfies Record<keyof Shelf, z.ZodType>;
+
+const shelf = component("Shelf", z.looseObject(shelfFields));
+
+const favourite = component(
+  "Favourite",
+  z.looseObject({
+    _id: objectIdString,
+    user: objectIdString,
+    book: bookSummary,
+    createdAt: dateTime,
+  } satisfies Record<keyof Favourite, z.ZodType>)
+);
+
+const progressFields = {
+  _id: objectIdString,
+  user: objectIdString,
+  book: objectIdString,
+  lastPage: z.int().optional(),
+  percentage: z.number().min(0).max(100),
+  updatedAt: dateTime,
+} satisfies Record<keyof ReadingProgress, z.ZodType>;
+
+const progress = component("ReadingProgress", z.looseObject(progressFields));
+
+const shelfResponse = z.object({ message, shelf });
+
+const progressResponse = z.object({ message, progress });
+
+export const libraryDocs: RouteDocs = new Map([
+  [
+    listShelves,
+    {
+      summary: "List your shelves",
+      description:
+        "Creates the default shelves on first use. Books are populated with their summary.",
+      response: z.object({ message, shelves: z.array(shelf) }),
+    },
+  ],
+  [
+    createShelf,
+    {
+      summary: "Create a shelf",
+      status: 201,
+      response: shelfResponse,
+      responses: { 409: "You already have a shelf with this name" },
+    },
+  ],
+  [
+    renameShelf,
+    {
+      summary: "Rename a shelf",
+      response: shelfResponse,
+      responses: { 409: "You already have a shelf with this name" },
+    },
+  ],
+  [deleteShelf, { summary: "Delete a shelf", status: 204 }],
+  [
+    addBookToShelf,
+    {
+      summary: "Add a book to a shelf",
+      description: "Adding a book that is already on the shelf changes nothing.",
+      response: shelfResponse,
+    },
+  ],
+  [
+    removeBookFromShelf,
+    { summary: "Remove a book from a shelf", status: 204 },
+  ],
+  [
+    listFavourites,
+    {
+      summary: "List your favourites",
+      response: z.object({ message, favourites: z.array(favourite) }),
+    },
+  ],
+  [addFavourite, { summary: "Mark a book as favourite", status: 204 }],
+  [removeFavourite, { summary: "Unmark a favourite", status: 204 }],
+  [
+    listProgress,
+    {
+      summary: "List your reading progress",
+      description: "Most recently read first.",
+      response: z.object({
+        message,
+        progress: z.array(
+          component(
+            "ReadingProgressWithBook",
+            z.looseObject({ ...progressFields, book: bookSummary })
+          )
+        ),
+      }),
+    },
+  ],
+  [
+    getProgress,
+    { summary: "Get your progress in a book", response: progressResponse },
+  ],
+  [
+    updateProgress,
+    {
+      summary: "Save your progress in a book",
+      description:
+        "When only lastPage is sent, the percentage is derived from the book's page count if known.",
+      response: progressResponse,
+    },
+  ],
+]);
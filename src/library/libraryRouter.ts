@@ -0,0 +1,50 @@
+import express from "express";
+import {
+  addBookToShelf,
+  addFavourite,
+  createShelf,
+  deleteShelf,
+  getProgress,
+  listFavourites,
+  listProgress,
+  listShelves,
+  removeBookFromShelf,
+  removeFavourite,
+  renameShelf,
+  updateProgress,
+} from "./libraryController.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import validate from "../middlewares/validate.ts";
+import {
+  addShelfBookSchema,
+  createShelfSchema,
+  libraryBookSchema,
+  renameShelfSchema,
+  shelfBookSchema,
+  shelfIdSchema,
+  updateProgressSchema,
+} from "./librarySchemas.ts";
+
+// Mounted at /api/users/me
+const libraryRouter = express.Router();
+
+libraryRouter.use(authenticate);
+
+//Routes
+
+libraryRouter.get("/shelves", listShelves)
+libraryRouter.post("/shelves", validate(createShelfSchema), createShelf)
+libraryRouter.patch("/shelves/:shelfId", validate(renameShelfSchema), renameShelf)
+libraryRouter.delete("/shelves/:shelfId", validate(shelfIdSchema), deleteShelf)
+libraryRouter.post("/shelves/:shelfId/books", validate(addShelfBookSchema), addBookToShelf)
+libraryRouter.delete("/shelves/:shelfId/books/:bookId", validate(shelfBookSchema), removeBookFromShelf)
+
+libraryRouter.get("/favourites", listFavourites)
+libraryRouter.put("/favourites/:bookId", validate(libraryBookSchema), addFavourite)
+libraryRouter.delete("/favourites/:bookId", validate(libraryBookSchema), removeFavourite)
+
+libraryRouter.get("/progress", listProgress)
+libraryRouter.get("/progress/:bookId", validate(libraryBookSchema), getProgress)
+libraryRouter.put("/progress/:bookId", validate(updateProgressSchema), updateProgress)
+
+export default libraryRouter;
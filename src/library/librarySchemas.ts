@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+
+const shelfName = z.string().trim().min(1, "name is required").max(60);
+
+export const createShelfSchema = {
+  body: z.object({ name: shelfName }),
+};
+
+export const shelfIdSchema = {
+  params: z.object({ shelfId: objectId("shelfId") }),
+};
+
+export const renameShelfSchema = {
+  params: shelfIdSchema.params,
+  body: z.object({ name: shelfName }),
+};
+
+export const addShelfBookSchema = {
+  params: shelfIdSchema.params,
+  body: z.object({ bookId: objectId("bookId") }),
+};
+
+export const shelfBookSchema = {
+  params: z.object({
+    shelfId: objectId("shelfId"),
+    bookId: objectId("bookId"),
+  }),
+};
+
+export const libraryBookSchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+};
+
+export const updateProgressSchema = {
+  params: libraryBookSchema.params,
+  body: z
+    .object({
+      lastPage: z.number().int().min(1).optional(),
+      percentage: z.number().min(0).max(100).optional(),
+    })
+    .refine((b) => b.lastPage !== undefined || b.percentage !== undefined, {
+      message: "Provide lastPage and/or percentage",
+    }),
+};
@@ -0,0 +1,35 @@
+import type mongoose from "mongoose";
+
+// Created for every user the first time their shelves are listed
+export const DEFAULT_SHELVES = ["want to read", "reading", "finished"] as const;
+
+export interface ShelfEntry {
+  book: mongoose.Types.ObjectId;
+  addedAt: Date;
+}
+
+export interface Shelf {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  name: string;
+  books: ShelfEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Favourite {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export interface ReadingProgress {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  lastPage?: number;
+  // 0 - 100
+  percentage: number;
+  updatedAt: Date;
+}
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+import type { ReadingProgress } from "./libraryTypes.ts";
+
+const readingProgressSchema = new mongoose.Schema<ReadingProgress>(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Users" },
+    book: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Books" },
+    lastPage: { type: Number, min: 1 },
+    percentage: { type: Number, required: true, min: 0, max: 100, default: 0 },
+  },
+  { timestamps: { createdAt: false, updatedAt: true } }
+);
+
+readingProgressSchema.index({ user: 1, book: 1 }, { unique: true });
+readingProgressSchema.index({ user: 1, updatedAt: -1 });
+readingProgressSchema.index({ book: 1 });
+
+const readingProgressModel = mongoose.model<ReadingProgress>(
+  "ReadingProgress",
+  readingProgressSchema
+);
+
+export default readingProgressModel;
@@ -0,0 +1,30 @@
+import mongoose from "mongoose";
+import type { Shelf, ShelfEntry } from "./libraryTypes.ts";
+
+const shelfEntrySchema = new mongoose.Schema<ShelfEntry>(
+  {
+    book: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Books" },
+    addedAt: { type: Date, required: true, default: Date.now },
+  },
+  { _id: false }
+);
+
+const shelfSchema = new mongoose.Schema<Shelf>(
+  {
+    user: { type: mongoose.Schema.Types.ObjectId, required: true, ref: "Users" },
+    name: { type: String, required: true, trim: true },
+    books: { type: [shelfEntrySchema], default: [] },
+  },
+  { timestamps: true }
+);
+
+// Shelf names are unique per user (case-insensitive)
+shelfSchema.index(
+  { user: 1, name: 1 },
+  { unique: true, collation: { locale: "en", strength: 2 } }
+);
+shelfSchema.index({ "books.book": 1 });
+
+const shelfModel = mongoose.model<Shelf>("Shelves", shelfSchema);
+
+export default shelfModel;
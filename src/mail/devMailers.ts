@@ -0,0 +1,45 @@
+import fs from "node:fs";
+import path from "node:path";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { config } from "../config/config.ts";
+import logger from "../observability/logger.ts";
+import type { MailMessage, Mailer } from "./mailTypes.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const outboxDir = path.resolve(
+  config.mailOutboxDir || path.resolve(__dirname, "../../public/data/outbox")
+);
+
+/**
+ * Local development mailers: nothing leaves the machine.
+ */
+export const consoleMailer: Mailer = {
+  name: "console",
+
+  async send(message: MailMessage) {
+    logger.info(
+      { to: message.to, subject: message.subject, text: message.text },
+      "Mail not sent (console mailer)"
+    );
+  },
+};
+
+// Writes one JSON file per message into the outbox directory
+export const fileMailer: Mailer = {
+  name: "file",
+
+  async send(message: MailMessage) {
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    const file = path.join(
+      outboxDir,
+      `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to}.json`
+    );
+    await fs.promises.writeFile(
+      file,
+      JSON.stringify({ from: config.mailFrom, ...message }, null, 2)
+    );
+  },
+};
@@ -0,0 +1,11 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { config } from "../config/config.ts";
+import { consoleMailer, fileMailer } from "./devMailers.ts";
+import type { Mailer } from "./mailTypes.ts";
+import smtpMailer from "./smtpMailer.ts";
+
+const mailers: Record<string, Mailer> = {
+  console: consoleMailer,
+  file: fileMailer,
+  smtp: smtpMailer,
+};
+
+const selected = mailers[config.mailDriver];
+if (!selected) {
+  throw new Error(
+    `Unknown MAIL_DRIVER "${config.mailDriver}", expected one of: ${Object.keys(mailers).join(", ")}`
+  );
+}
+
+const mailer: Mailer = selected;
+
+export default mailer;
@@ -0,0 +1,22 @@
+import nodemailer from "nodemailer";
+import { config } from "../config/config.ts";
+import type { MailMessage, Mailer } from "./mailTypes.ts";
+
+const transport = nodemailer.createTransport({
+  host: config.smtpHost,
+  port: config.smtpPort,
+  secure: config.smtpSecure,
+  ...(config.smtpUser
+    ? { auth: { user: config.smtpUser, pass: config.smtpPassword } }
+    : {}),
+});
+
+const smtpMailer: Mailer = {
+  name: "smtp",
+
+  async send(message: MailMessage) {
+    await transport.sendMail({ from: config.mailFrom, ...message });
+  },
+};
+
+export default smtpMailer;
@@ -0,0 +1,120 @@
+import type { NextFunction, Request, Response } from "express";
+import logger from "../observability/logger.ts";
+import { httpRequestDuration, httpRequestsTotal } from "../observability/metrics.ts";
+
+const QUIET_PATHS = new Set(["/metrics", "/healthz", "/readyz"]);
+
+interface RouteMount {
+  // The URL prefix the mount matched, e.g. /api/books/65f.../reviews
+  baseUrl: string;
+  // The same prefix as written, e.g. /api/books/:bookId/reviews
+  template: string;
+}
+
+// Mounts with path parameters the request went through, see routeTemplate
+const requestMounts = new WeakMap<Request, RouteMount[]>();
+
+// `url` with the longest recorded mount it starts with put back as written
+const templateOf = (req: Request, url: string) => {
+  const mount = requestMounts
+    .get(req)
+    ?.findLast((m) => url === m.baseUrl || url.startsWith(`${m.baseUrl}/`));
+  return mount ? mount.template + url.slice(mount.baseUrl.length) : url;
+};
+
+/**
+ * Middleware to put in front of a router mounted on a path with
+ * parameters, e.g.
+ *   router.use("/:bookId/reviews", routeTemplate("/:bookId/reviews"), reviewRouter)
+ * `req.baseUrl` only holds the URL that matched, so without it the route
+ * label would carry every ID ever requested.
+ */
+export const routeTemplate = (template: string) => {
+  // Each segment of the template matches one segment of the URL
+  const depth = template.split("/").length - 1;
+
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const segments = req.baseUrl.split("/");
+    const parent = segments.slice(0, segments.length - depth).join("/");
+    const mounts = requestMounts.get(req) ?? [];
+    mounts.push({
+      baseUrl: req.baseUrl,
+      template: templateOf(req, parent) + template,
+    });
+    requestMounts.set(req, mounts);
+    next();
+  };
+};
+
+/**
+ * Remember the template of the route that handles the request (e.g.
+ * /api/books/:bookId), so metrics are not labelled with every ID ever
+ * requested. Express resets `req.baseUrl` once the router is done, before
+ * the response finishes, so the template is taken when the route is
+ * matched.
+ */
+const trackRoute = (req: Request) => {
+  let route: Request["route"];
+  let template = "unmatched";
+
+  Object.defineProperty(req, "route", {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: Request["route"]) => {
+      route = value;
+      const path = typeof value?.path === "string" ? value.path : "";
+      const base = templateOf(req, req.baseUrl);
+      template = `${base}${path === "/" && base ? "" : path}` || "/";
+    },
+  });
+
+  return () => template;
+};
+
+/**
+ * Log one line per request once the response is done, with its latency,
+ * and record the request metrics. Requests the client gave up on are
+ * logged with `aborted: true`.
+ */
+const accessLog = (req: Request, res: Response, next: NextFunction) => {
+  const start = process.hrtime.bigint();
+  const routeOf = trackRoute(req);
+
+  res.once("close", () => {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    const route = routeOf();
+    const status = res.statusCode;
+
+    const labels = {
+      method: req.method,
+      route,
+      status_code: String(status),
+    };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, seconds);
+
+    // Scrapes and probes would drown everything else
+    if (QUIET_PATHS.has(req.path)) return;
+
+    const level = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+    logger[level](
+      {
+        requestId: res.locals.requestId,
+        method: req.method,
+        url: req.originalUrl,
+        route,
+        status,
+        durationMs: Math.round(seconds * 1e4) / 10,
+        bytes: Number(res.getHeader("Content-Length")) || undefined,
+        userId: (req as { userId?: string }).userId,
+        ...(res.writableFinished ? {} : { aborted: true }),
+      },
+      "request completed"
+    );
+  });
+
+  next();
+};
+
+export default accessLog;
@@ -1,51 +1,81 @@
 import type { NextFunction, Request, Response } from "express";
-import createHttpError from "http-errors";
+import { InternalError, UnauthorizedError } from "../errors/appError.ts";
 import jwt from "jsonwebtoken";
 import { config } from "../config/config.ts";
+import userModel from "../user/userModel.ts";
+import type { UserRole } from "../user/userTypes.ts";
+import logger from "../observability/logger.ts";
+import { describeMiddleware } from "../docs/routeMeta.ts";
 
 export interface AuthRequest extends Request {
   userId: string;
+  role: UserRole;
+  emailVerified: boolean;
 }
 
-const authenticate = (req: Request, res: Response, next: NextFunction) => {
+const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
     // 1. Check for existing Authorization header
     const authHeader = req.header("Authorization");
     if (!authHeader) {
-      return next(createHttpError(401, "Authorization token is required"));
+      return next(new UnauthorizedError("Authorization token is required"));
     }
 
     // 2. Ensure proper "Bearer <token>" format
     const parts = authHeader.split(" ");
     if (parts.length !== 2 || parts[0] !== "Bearer") {
-      return next(createHttpError(401, "Invalid Authorization header format"));
+      return next(new UnauthorizedError("Invalid Authorization header format"));
     }
 
-    const token = parts[1];
+    const token = parts[1] as string;
 
     // 3. Verify token
     let decoded: jwt.JwtPayload;
     try {
-      decoded = jwt.verify(token, config.jwtSecret!) as jwt.JwtPayload;
+      decoded = jwt.verify(token, config.jwtSecret) as jwt.JwtPayload;
     } catch (err) {
-      return next(createHttpError(401, "Invalid or expired token"));
+      return next(new UnauthorizedError("Invalid or expired token", { code: "INVALID_TOKEN" }));
     }
 
     // 4. Ensure payload contains a subject (user ID)
     if (!decoded?.sub) {
-      return next(createHttpError(401, "Invalid token payload"));
+      return next(new UnauthorizedError("Invalid token payload"));
     }
 
-    // 5. Attach userId to request object
+    // 5. Reject tokens revoked by logout / password change. Not lean, so
+    //    accounts created before these fields existed get their defaults
+    const user = await userModel
+      .findById(decoded.sub)
+      .select("tokenVersion role emailVerified");
+    if (!user || (decoded.ver ?? 0) !== user.tokenVersion) {
+      return next(new UnauthorizedError("Token has been revoked", { code: "TOKEN_REVOKED" }));
+    }
+
+    // 6. Attach userId and role to request object
     const _req = req as AuthRequest;
     _req.userId = decoded.sub as string;
+    _req.role = user.role;
+    _req.emailVerified = user.emailVerified;
 
-    // 6. Continue to next middleware
+    // 7. Continue to next middleware
     next();
   } catch (error) {
-    console.error("Auth error:", error);
-    return next(createHttpError(500, "Authentication failed"));
+    logger.error({ err: error }, "Auth error");
+    return next(new InternalError("Authentication failed"));
   }
 };
 
+/**
+ * Like `authenticate`, but lets anonymous requests through. Used where
+ * signing in only widens what the caller can see.
+ */
+export const optionalAuthenticate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => (req.header("Authorization") ? authenticate(req, res, next) : next());
+
+describeMiddleware(authenticate, { auth: "required" });
+describeMiddleware(optionalAuthenticate, { auth: "optional" });
+
 export default authenticate;
@@ -0,0 +1,73 @@
+import type { NextFunction, Request, Response } from "express";
+import { ForbiddenError, UnauthorizedError } from "../errors/appError.ts";
+import type { UserRole } from "../user/userTypes.ts";
+import type { AuthRequest } from "./authenticate.ts";
+import { describeMiddleware } from "../docs/routeMeta.ts";
+
+// Roles allowed to act on any user's content
+export const STAFF_ROLES: UserRole[] = ["moderator", "admin"];
+
+export const isStaff = (role?: UserRole) =>
+  !!role && STAFF_ROLES.includes(role);
+
+/**
+ * Book policies: only the owner may edit a book, while owners and staff may
+ * remove it.
+ */
+export const isBookOwner = (
+  req: Request,
+  book: { author: { toString(): string } }
+) => book.author.toString() === (req as AuthRequest).userId;
+
+export const canManageBook = (
+  req: Request,
+  book: { author: { toString(): string } }
+) => {
+  return isBookOwner(req, book) || isStaff((req as AuthRequest).role);
+};
+
+/**
+ * Restrict a route to the given roles. Must run after `authenticate`.
+ */
+const authorize = (...roles: UserRole[]) =>
+  describeMiddleware(
+    (req: Request, res: Response, next: NextFunction) => {
+      const { userId, role } = req as AuthRequest;
+
+      if (!userId) {
+        return next(new UnauthorizedError("Unauthenticated"));
+      }
+
+      if (!role || !roles.includes(role)) {
+        return next(new ForbiddenError("Insufficient permissions", {
+            code: "INSUFFICIENT_ROLE",
+          }));
+      }
+
+      next();
+    },
+    { roles }
+  );
+
+/**
+ * Only let users with a verified email address through. Must run after
+ * `authenticate`.
+ */
+export const requireVerifiedEmail = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (!(req as AuthRequest).emailVerified) {
+    return next(
+      new ForbiddenError("Verify your email address first", {
+        code: "EMAIL_NOT_VERIFIED",
+      })
+    );
+  }
+  next();
+};
+
+describeMiddleware(requireVerifiedEmail, { verifiedEmail: true });
+
+export default authorize;
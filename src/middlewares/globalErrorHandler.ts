@@ -1,15 +1,150 @@
-
+import { STATUS_CODES } from "node:http";
 import type { NextFunction, Request, Response } from "express";
-import type { HttpError } from "http-errors";
+import createHttpError from "http-errors";
+import mongoose from "mongoose";
+import multer from "multer";
 import { config } from "../config/config.ts";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  InternalError,
+  PayloadTooLargeError,
+  TooManyRequestsError,
+  ValidationError,
+} from "../errors/appError.ts";
+import logger from "../observability/logger.ts";
+
+// Default codes for errors raised through http-errors (e.g. by body-parser)
+const HTTP_STATUS_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHENTICATED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "PAYLOAD_TOO_LARGE",
+  415: "UNSUPPORTED_MEDIA_TYPE",
+  422: "VALIDATION_FAILED",
+  429: "TOO_MANY_REQUESTS",
+  502: "UPSTREAM_ERROR",
+  503: "SERVICE_UNAVAILABLE",
+};
+
+const MULTER_MESSAGES: Partial<Record<multer.ErrorCode, string>> = {
+  LIMIT_FILE_SIZE: "Uploaded file is too large",
+  LIMIT_FILE_COUNT: "Too many files uploaded",
+  LIMIT_UNEXPECTED_FILE: "Unexpected file field",
+  LIMIT_FIELD_VALUE: "Form field value is too long",
+};
+
+/**
+ * Normalise anything thrown by controllers, Mongoose, Multer or http-errors
+ * into an AppError.
+ */
+const toAppError = (err: unknown): AppError => {
+  if (err instanceof AppError) return err;
+
+  if (err instanceof mongoose.Error.CastError) {
+    return new BadRequestError(`Invalid value for ${err.path}`, {
+      code: "INVALID_ID",
+      cause: err,
+    });
+  }
+
+  if (err instanceof mongoose.Error.ValidationError) {
+    return new ValidationError("Validation failed", {
+      cause: err,
+      details: {
+        errors: Object.values(err.errors).map((e) => ({
+          location: "body",
+          field: e.path,
+          message: e.message,
+        })),
+      },
+    });
+  }
+
+  if ((err as { code?: unknown })?.code === 11000) {
+    const fields = Object.keys(
+      (err as { keyValue?: Record<string, unknown> }).keyValue ?? {}
+    );
+    return new ConflictError(
+      fields.length
+        ? `A record with this ${fields.join(", ")} already exists`
+        : "Duplicate record",
+      { code: "DUPLICATE_KEY", cause: err, details: { fields } }
+    );
+  }
+
+  if (err instanceof multer.MulterError) {
+    const message = MULTER_MESSAGES[err.code] ?? err.message;
+    const options = {
+      code: err.code,
+      cause: err,
+      ...(err.field ? { details: { field: err.field } } : {}),
+    };
+    return err.code === "LIMIT_FILE_SIZE"
+      ? new PayloadTooLargeError(message, options)
+      : new BadRequestError(message, options);
+  }
+
+  if (createHttpError.isHttpError(err)) {
+    const status = err.statusCode;
+    return new AppError(
+      status,
+      HTTP_STATUS_CODES[status] ?? (status >= 500 ? "INTERNAL_ERROR" : "BAD_REQUEST"),
+      // Only client errors carry messages meant for the caller
+      err.expose ? err.message : (STATUS_CODES[status] ?? "Error"),
+      {
+        cause: err,
+        ...((err as { errors?: unknown }).errors
+          ? { details: { errors: (err as { errors?: unknown }).errors } }
+          : {}),
+      }
+    );
+  }
+
+  return new InternalError("Internal server error", { cause: err });
+};
+
+/**
+ * Respond with an RFC 7807 problem document:
+ *   { type, title, status, detail, instance, code, requestId, ...details }
+ * `correlationId` carries the same ID for clients written against the
+ * older field.
+ */
+const globalErrorHandler = (err: unknown, req: Request, res: Response, next: NextFunction) => {
+  const appError = toAppError(err);
+  const requestId = res.locals.requestId as string;
+
+  if (appError.status >= 500) {
+    logger.error({ err }, "Unhandled error while serving request");
+  }
+
+  if (res.headersSent) {
+    return next(err);
+  }
 
+  if (appError instanceof TooManyRequestsError && appError.retryAfter) {
+    res.setHeader("Retry-After", String(Math.ceil(appError.retryAfter)));
+  }
 
-const globalErrorHandler = (err: HttpError, req: Request, res: Response, next: NextFunction) => {
-  const statusCode = err.statusCode || 500;
-  return res.status(statusCode).json({
-    message: err.message,
-    errorStack: config.env === "development" ? err.stack : "",
-  });
+  res.setHeader("X-Correlation-Id", requestId);
+  return res
+    .status(appError.status)
+    .type("application/problem+json")
+    .json({
+      type: `urn:elib:error:${appError.code.toLowerCase()}`,
+      title: STATUS_CODES[appError.status] ?? "Error",
+      status: appError.status,
+      detail: appError.message,
+      instance: req.originalUrl,
+      code: appError.code,
+      requestId,
+      correlationId: requestId,
+      ...appError.details,
+      ...(config.env === "development" ? { stack: (err as Error)?.stack } : {}),
+    });
 };
 
-export default globalErrorHandler
\ No newline at end of file
+export default globalErrorHandler
@@ -0,0 +1,65 @@
+import type { NextFunction, Request, Response } from "express";
+import { TooManyRequestsError } from "../errors/appError.ts";
+import defaultStore from "../rateLimit/store.ts";
+import type { RateLimitStore } from "../rateLimit/rateLimitTypes.ts";
+import logger from "../observability/logger.ts";
+import { describeMiddleware } from "../docs/routeMeta.ts";
+
+export interface RateLimitOptions {
+  // Namespace for this limiter's counters in the shared store
+  name: string;
+  windowMs: number;
+  max: number;
+  // Bucket key for the request, e.g. user id or IP
+  key: (req: Request) => string;
+  message?: string;
+  // Defaults to the store picked by RATE_LIMIT_STORE
+  store?: RateLimitStore;
+}
+
+/**
+ * Fixed-window rate limiter. Sends the standard RateLimit-* headers and
+ * rejects with 429 + Retry-After once `max` requests were seen in the
+ * current window.
+ */
+const rateLimit = (options: RateLimitOptions) => {
+  const store = options.store ?? defaultStore;
+
+  const limiter = async (req: Request, res: Response, next: NextFunction) => {
+    const key = `${options.name}:${options.key(req)}`;
+
+    let hit;
+    try {
+      hit = await store.increment(key, options.windowMs);
+    } catch (error) {
+      // A broken counter store should not take the API down with it
+      logger.error({ err: error }, `Rate limit store "${store.name}" failed`);
+      return next();
+    }
+
+    const retryAfter = Math.max(
+      1,
+      Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000)
+    );
+    res.setHeader("RateLimit-Limit", String(options.max));
+    res.setHeader("RateLimit-Remaining", String(Math.max(0, options.max - hit.count)));
+    res.setHeader("RateLimit-Reset", String(retryAfter));
+
+    if (hit.count > options.max) {
+      return next(
+        new TooManyRequestsError(options.message ?? "Too many requests", {
+          retryAfter,
+        })
+      );
+    }
+
+    next();
+  };
+
+  return describeMiddleware(limiter, { rateLimited: true });
+};
+
+// Fallback keeps requests without a resolvable address in one bucket
+export const clientIp = (req: Request) => req.ip ?? "unknown";
+
+export default rateLimit;
@@ -0,0 +1,24 @@
+import crypto from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import { requestContext } from "../observability/requestContext.ts";
+
+// Accept IDs from a proxy or client only if they look like IDs
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request an ID: reuse a sane incoming X-Request-Id (or the
+ * older X-Correlation-Id), otherwise generate one. The ID is echoed in the
+ * X-Request-Id response header, attached to every log line written while
+ * the request is handled and included in error responses.
+ */
+const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.header("X-Request-Id") ?? req.header("X-Correlation-Id");
+  const id =
+    incoming && VALID_REQUEST_ID.test(incoming) ? incoming : crypto.randomUUID();
+
+  res.locals.requestId = id;
+  res.setHeader("X-Request-Id", id);
+  requestContext.run({ requestId: id }, () => next());
+};
+
+export default requestId;
@@ -0,0 +1,97 @@
+import type { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import { BadRequestError, ValidationError } from "../errors/appError.ts";
+import { describeMiddleware } from "../docs/routeMeta.ts";
+
+export interface RequestSchemas {
+  body?: z.ZodType;
+  params?: z.ZodType;
+  query?: z.ZodType;
+}
+
+export interface FieldError {
+  location: keyof RequestSchemas;
+  field: string;
+  message: string;
+}
+
+type Output<S, Fallback> = S extends z.ZodType ? z.output<S> : Fallback;
+
+/**
+ * Request type seen by a controller once `validate(schemas)` has run, so the
+ * controller gets the parsed (coerced, trimmed) values with their types.
+ */
+export type ValidatedRequest<S extends RequestSchemas> = Request<
+  Output<S["params"], Record<string, string>>,
+  unknown,
+  Output<S["body"], unknown>,
+  Output<S["query"], Record<string, unknown>>
+>;
+
+// Shared building blocks for route schemas
+export const objectId = (label = "id") =>
+  z.string().refine((v) => mongoose.isValidObjectId(v), {
+    message: `${label} must be a valid id`,
+  });
+
+const toFieldErrors = (
+  location: keyof RequestSchemas,
+  error: z.ZodError
+): FieldError[] =>
+  error.issues.map((issue) => ({
+    location,
+    field: issue.path.join(".") || location,
+    message: issue.message,
+  }));
+
+/**
+ * Validate and replace `req.params`, `req.query` and `req.body` with their
+ * parsed values. Invalid params/query produce a 400, an invalid body a 422;
+ * both carry an `errors` list with one entry per failing field.
+ */
+const validate = (schemas: RequestSchemas) =>
+  describeMiddleware((req: Request, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+    const parsed: Partial<Record<keyof RequestSchemas, unknown>> = {};
+
+    for (const location of ["params", "query", "body"] as const) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        errors.push(...toFieldErrors(location, result.error));
+      }
+    }
+
+    if (errors.length) {
+      const options = { details: { errors } };
+      return next(
+        errors.some((e) => e.location !== "body")
+          ? new BadRequestError("Request validation failed", {
+              ...options,
+              code: "INVALID_REQUEST",
+            })
+          : new ValidationError("Request validation failed", options)
+      );
+    }
+
+    if ("params" in parsed) req.params = parsed.params as Request["params"];
+    if ("body" in parsed) req.body = parsed.body;
+    // Express 5 exposes req.query through a getter, so redefine it
+    if ("query" in parsed) {
+      Object.defineProperty(req, "query", {
+        value: parsed.query,
+        writable: true,
+        configurable: true,
+        enumerable: true,
+      });
+    }
+
+    next();
+  }, { schemas });
+
+export default validate;
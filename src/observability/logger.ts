@@ -0,0 +1,28 @@
+import pino from "pino";
+import { config } from "../config/config.ts";
+import { currentRequestId } from "./requestContext.ts";
+
+/**
+ * JSON logger, one object per line on stdout. Pass errors as `err` so they
+ * are serialized with their stack:
+ *
+ *   logger.error({ err: error }, "Failed to list books");
+ *
+ * Lines written while handling a request carry its `requestId`.
+ */
+const logger = pino({
+  level: config.logLevel,
+  base: { service: "elib-api" },
+  timestamp: pino.stdTimeFunctions.isoTime,
+  formatters: {
+    // "info" instead of 30
+    level: (label) => ({ level: label }),
+  },
+  mixin: () => {
+    const requestId = currentRequestId();
+    return requestId ? { requestId } : {};
+  },
+  redact: ["headers.authorization", "headers.cookie"],
+});
+
+export default logger;
@@ -0,0 +1,88 @@
+import crypto from "node:crypto";
+import type { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import client from "prom-client";
+import { config } from "../config/config.ts";
+import { UnauthorizedError } from "../errors/appError.ts";
+
+// Own registry, so nothing registered by a dependency leaks into /metrics
+export const registry = new client.Registry();
+
+client.collectDefaultMetrics({ register: registry });
+
+export const httpRequestsTotal = new client.Counter({
+  name: "http_requests_total",
+  help: "HTTP requests handled, by method, route and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  registers: [registry],
+});
+
+export const httpRequestDuration = new client.Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request latency, by method, route and status code",
+  labelNames: ["method", "route", "status_code"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+export const uploadBytes = new client.Histogram({
+  name: "storage_upload_bytes",
+  help: "Size of assets uploaded to storage, by folder",
+  labelNames: ["folder"] as const,
+  // 10 KB .. 1 GB
+  buckets: client.exponentialBuckets(10 * 1024, 4, 9),
+  registers: [registry],
+});
+
+export const uploadDuration = new client.Histogram({
+  name: "storage_upload_duration_seconds",
+  help: "Time spent uploading assets to storage, by folder and outcome",
+  labelNames: ["folder", "outcome"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [registry],
+});
+
+export const revisionRecordFailures = new client.Counter({
+  name: "book_revision_record_failures_total",
+  help: "Book changes stored without their history entry, by action",
+  labelNames: ["action"] as const,
+  registers: [registry],
+});
+
+new client.Gauge({
+  name: "mongo_connection_state",
+  help: "Mongoose connection state: 0 disconnected, 1 connected, 2 connecting, 3 disconnecting",
+  registers: [registry],
+  collect() {
+    this.set(mongoose.connection.readyState);
+  },
+});
+
+const hasMetricsToken = (req: Request) => {
+  const expected = Buffer.from(`Bearer ${config.metricsToken}`);
+  const given = Buffer.from(req.header("Authorization") ?? "");
+  return (
+    given.length === expected.length && crypto.timingSafeEqual(given, expected)
+  );
+};
+
+/**
+ * GET /metrics in the Prometheus text format. Open unless METRICS_TOKEN is
+ * set, in which case the scraper has to send it as a bearer token.
+ */
+export const metricsHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (config.metricsToken && !hasMetricsToken(req)) {
+    return next(new UnauthorizedError("Invalid metrics token"));
+  }
+
+  try {
+    res.setHeader("Content-Type", registry.contentType);
+    res.end(await registry.metrics());
+  } catch (error) {
+    return next(error);
+  }
+};
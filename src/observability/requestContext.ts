@@ -0,0 +1,11 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+export interface RequestContext {
+  requestId: string;
+}
+
+// Carries the current request's ID through every await, so code far from
+// the controller (services, storage drivers) logs it without passing it on
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export const currentRequestId = () => requestContext.getStore()?.requestId;
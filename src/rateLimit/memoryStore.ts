@@ -0,0 +1,45 @@
+import type { RateLimitHit, RateLimitStore } from "./rateLimitTypes.ts";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+const buckets = new Map<string, RateLimitHit>();
+
+// Drop expired windows so the map does not grow without bound
+const sweep = setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of buckets) {
+    if (bucket.resetAt.getTime() <= now) buckets.delete(key);
+  }
+}, SWEEP_INTERVAL_MS);
+sweep.unref();
+
+const active = (key: string) => {
+  const bucket = buckets.get(key);
+  if (!bucket || bucket.resetAt.getTime() <= Date.now()) return undefined;
+  return bucket;
+};
+
+const memoryStore: RateLimitStore = {
+  name: "memory",
+
+  async increment(key, windowMs) {
+    let bucket = active(key);
+    if (!bucket) {
+      bucket = { count: 0, resetAt: new Date(Date.now() + windowMs) };
+      buckets.set(key, bucket);
+    }
+    bucket.count += 1;
+    return { ...bucket };
+  },
+
+  async get(key) {
+    const bucket = active(key);
+    return bucket && { ...bucket };
+  },
+
+  async reset(key) {
+    buckets.delete(key);
+  },
+};
+
+export default memoryStore;
@@ -0,0 +1,51 @@
+import rateLimitModel from "./rateLimitModel.ts";
+import type { RateLimitStore } from "./rateLimitTypes.ts";
+
+/**
+ * Counters kept in MongoDB so every app instance shares the same windows.
+ * The TTL index only cleans up eventually, so expiry is also checked on read.
+ */
+const mongoStore: RateLimitStore = {
+  name: "mongo",
+
+  async increment(key, windowMs) {
+    const now = new Date();
+    const stillOpen = { $gt: ["$resetAt", now] };
+
+    // Single atomic update: bump the open window or start a new one
+    const window = await rateLimitModel.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [stillOpen, { $add: ["$count", 1] }, 1] },
+            resetAt: {
+              $cond: [
+                stillOpen,
+                "$resetAt",
+                new Date(now.getTime() + windowMs),
+              ],
+            },
+          },
+        },
+      ],
+      { upsert: true, new: true, updatePipeline: true }
+    );
+
+    return { count: window.count, resetAt: window.resetAt };
+  },
+
+  async get(key) {
+    const window = await rateLimitModel.findOne({
+      key,
+      resetAt: { $gt: new Date() },
+    });
+    return window ? { count: window.count, resetAt: window.resetAt } : undefined;
+  },
+
+  async reset(key) {
+    await rateLimitModel.deleteOne({ key });
+  },
+};
+
+export default mongoStore;
@@ -0,0 +1,24 @@
+import mongoose from "mongoose";
+
+export interface RateLimitWindow {
+  _id: string;
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const rateLimitSchema = new mongoose.Schema<RateLimitWindow>({
+  key: { type: String, required: true, unique: true },
+  count: { type: Number, required: true, default: 0 },
+  resetAt: { type: Date, required: true },
+});
+
+// Let MongoDB drop finished windows on its own
+rateLimitSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+const rateLimitModel = mongoose.model<RateLimitWindow>(
+  "RateLimits",
+  rateLimitSchema
+);
+
+export default rateLimitModel;
@@ -0,0 +1,18 @@
+export interface RateLimitHit {
+  // Hits seen in the current window, including this one
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where rate limit counters live. The in-memory store is fine for a single
+ * process; shared deployments need a store every instance can see.
+ */
+export interface RateLimitStore {
+  name: string;
+  // Count a hit, starting a new window of `windowMs` if none is active
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  // Current window for `key`, if one is active
+  get(key: string): Promise<RateLimitHit | undefined>;
+  reset(key: string): Promise<void>;
+}
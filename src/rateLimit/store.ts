@@ -0,0 +1,20 @@
+import { config } from "../config/config.ts";
+import memoryStore from "./memoryStore.ts";
+import mongoStore from "./mongoStore.ts";
+import type { RateLimitStore } from "./rateLimitTypes.ts";
+
+const stores: Record<string, RateLimitStore> = {
+  memory: memoryStore,
+  mongo: mongoStore,
+};
+
+const selected = stores[config.rateLimitStore];
+if (!selected) {
+  throw new Error(
+    `Unknown RATE_LIMIT_STORE "${config.rateLimitStore}", expected one of: ${Object.keys(stores).join(", ")}`
+  );
+}
+
+const rateLimitStore: RateLimitStore = selected;
+
+export default rateLimitStore;
@@ -0,0 +1,195 @@
+import type { NextFunction, Request, Response } from "express";
+import {
+  ConflictError,
+  ForbiddenError,
+  InternalError,
+  NotFoundError,
+} from "../errors/appError.ts";
+import bookModel from "../book/bookModel.ts";
+import { VIEWABLE_STATUSES } from "../book/bookTypes.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import { isStaff } from "../middlewares/authorize.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import reviewModel, { syncBookRating } from "./reviewModel.ts";
+import type {
+  createReviewSchema,
+  listReviewsSchema,
+  reviewIdSchema,
+  updateReviewSchema,
+} from "./reviewSchemas.ts";
+import logger from "../observability/logger.ts";
+
+const bookExists = (bookId: string) =>
+  bookModel.exists({
+    _id: bookId,
+    status: { $in: VIEWABLE_STATUSES },
+    hidden: { $ne: true },
+    deletedAt: null,
+  });
+
+/**
+ * Create a review:
+ *  - the book must exist and be visible
+ *  - one review per user per book (409 otherwise)
+ *  - refresh the book's denormalized rating
+ */
+const createReview = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, body } = req as unknown as ValidatedRequest<
+    typeof createReviewSchema
+  >;
+  const userId = (req as AuthRequest).userId;
+
+  try {
+    if (!(await bookExists(params.bookId))) {
+      return next(
+        new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+      );
+    }
+  } catch (error) {
+    return next(new InternalError("Error while fetching the book"));
+  }
+
+  let review;
+  try {
+    review = await reviewModel.create({
+      book: params.bookId,
+      user: userId,
+      rating: body.rating,
+      ...(body.comment ? { comment: body.comment } : {}),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code === 11000) {
+      return next(
+        new ConflictError("You have already reviewed this book", {
+          code: "REVIEW_EXISTS",
+        })
+      );
+    }
+    logger.error({ err: error }, "Failed to create review");
+    return next(new InternalError("Error while saving the review"));
+  }
+
+  try {
+    await syncBookRating(params.bookId);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to update book rating");
+  }
+
+  res.status(201).json({
+    message: "Review created sucessfully",
+    review,
+  });
+};
+
+/**
+ * List reviews of a book, newest first.
+ */
+const listReviews = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, query } = req as unknown as ValidatedRequest<
+    typeof listReviewsSchema
+  >;
+  const { page, limit } = query;
+
+  try {
+    if (!(await bookExists(params.bookId))) {
+      return next(
+        new NotFoundError("Book does not exist", { code: "BOOK_NOT_FOUND" })
+      );
+    }
+
+    const filter = { book: params.bookId };
+    const [reviews, total] = await Promise.all([
+      reviewModel
+        .find(filter)
+        .populate("user", "name")
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      reviewModel.countDocuments(filter),
+    ]);
+
+    res.json({
+      message: "Reviews fetched sucessfully",
+      reviews,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to list reviews");
+    return next(new InternalError("Failed to fetch reviews"));
+  }
+};
+
+/**
+ * Load the review addressed by :bookId/:reviewId, or forward a 404.
+ */
+const findReview = async (req: Request, next: NextFunction) => {
+  const { bookId, reviewId } = (
+    req as unknown as ValidatedRequest<typeof reviewIdSchema>
+  ).params;
+
+  try {
+    const review = await reviewModel.findOne({ _id: reviewId, book: bookId });
+    if (!review) {
+      next(new NotFoundError("Review not found", { code: "REVIEW_NOT_FOUND" }));
+      return null;
+    }
+    return review;
+  } catch (error) {
+    next(new InternalError("Error while fetching the review"));
+    return null;
+  }
+};
+
+/**
+ * Edit a review (author of the review only).
+ */
+const updateReview = async (req: Request, res: Response, next: NextFunction) => {
+  const { body } = req as unknown as ValidatedRequest<typeof updateReviewSchema>;
+
+  const review = await findReview(req, next);
+  if (!review) return;
+
+  if (review.user.toString() !== (req as AuthRequest).userId) {
+    return next(new ForbiddenError("You can only edit your own review"));
+  }
+
+  try {
+    if (body.rating !== undefined) review.rating = body.rating;
+    if (body.comment !== undefined) review.comment = body.comment;
+    await review.save();
+    await syncBookRating(review.book);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to update review");
+    return next(new InternalError("Error while updating the review"));
+  }
+
+  res.json({
+    message: "Review updated sucessfully",
+    review,
+  });
+};
+
+/**
+ * Delete a review (its author, moderators and admins).
+ */
+const deleteReview = async (req: Request, res: Response, next: NextFunction) => {
+  const review = await findReview(req, next);
+  if (!review) return;
+
+  const { userId, role } = req as AuthRequest;
+  if (review.user.toString() !== userId && !isStaff(role)) {
+    return next(new ForbiddenError("You can only delete your own review"));
+  }
+
+  try {
+    await reviewModel.deleteOne({ _id: review._id });
+    await syncBookRating(review.book);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to delete review");
+    return next(new InternalError("Error while deleting the review"));
+  }
+
+  res.status(204).end();
+};
+
+export { createReview, listReviews, updateReview, deleteReview };
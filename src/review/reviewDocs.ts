@@ -0,0 +1,76 @@
+import { z } from "zod";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+  pagination,
+  userSummary,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  createReview,
+  deleteReview,
+  listReviews,
+  updateReview,
+} from "./reviewController.ts";
+import type { Review } from "./reviewTypes.ts";
+
+const reviewFields = {
+  _id: objectIdString,
+  book: objectIdString,
+  user: objectIdString,
+  rating: z.int().min(1).max(5),
+  comment: z.string().optional(),
+  createdAt: dateTime,
+  updatedAt: dateTime,
+} satisfies Record<keyof Review, z.ZodType>;
+
+const review = component("Review", z.looseObject(reviewFields));
+
+export const reviewDocs: RouteDocs = new Map([
+  [
+    createReview,
+    {
+      summary: "Review a book",
+      description: "One review per user and book.",
+      status: 201,
+      response: z.object({ message, review }),
+      responses: { 409: "You already reviewed this book" },
+    },
+  ],
+  [
+    listReviews,
+    {
+      summary: "List a book's reviews",
+      description: "Newest first, with the reviewer's name.",
+      response: z.object({
+        message,
+        reviews: z.array(
+          component(
+            "ReviewWithUser",
+            z.looseObject({ ...reviewFields, user: userSummary })
+          )
+        ),
+        pagination,
+      }),
+    },
+  ],
+  [
+    updateReview,
+    {
+      summary: "Edit your review",
+      response: z.object({ message, review }),
+      responses: { 403: "Not your review" },
+    },
+  ],
+  [
+    deleteReview,
+    {
+      summary: "Delete a review",
+      description: "The author of the review or staff.",
+      status: 204,
+      responses: { 403: "Neither the author of the review nor staff" },
+    },
+  ],
+]);
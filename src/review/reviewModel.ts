@@ -0,0 +1,57 @@
+import mongoose from "mongoose";
+import bookModel from "../book/bookModel.ts";
+import type { Review } from "./reviewTypes.ts";
+
+const reviewSchema = new mongoose.Schema<Review>(
+  {
+    book: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Books",
+    },
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+    },
+    rating: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 5,
+      validate: { validator: Number.isInteger, message: "rating must be an integer" },
+    },
+    comment: {
+      type: String,
+      maxlength: 2000,
+    },
+  },
+  { timestamps: true }
+);
+
+// One review per user per book
+reviewSchema.index({ book: 1, user: 1 }, { unique: true });
+reviewSchema.index({ book: 1, createdAt: -1 });
+
+const reviewModel = mongoose.model<Review>("Reviews", reviewSchema);
+
+/**
+ * Recompute the denormalized ratingAverage / reviewCount of a book from its
+ * reviews. Called after every review create, edit and delete.
+ */
+export const syncBookRating = async (bookId: string | mongoose.Types.ObjectId) => {
+  const [stats] = await reviewModel.aggregate<{ average: number; count: number }>([
+    { $match: { book: new mongoose.Types.ObjectId(String(bookId)) } },
+    { $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } } },
+  ]);
+
+  await bookModel.updateOne(
+    { _id: String(bookId) },
+    {
+      ratingAverage: stats ? Math.round(stats.average * 100) / 100 : 0,
+      reviewCount: stats?.count ?? 0,
+    }
+  );
+};
+
+export default reviewModel;
@@ -0,0 +1,17 @@
+import express from "express";
+import { createReview, deleteReview, listReviews, updateReview } from "./reviewController.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import validate from "../middlewares/validate.ts";
+import { createReviewSchema, listReviewsSchema, reviewIdSchema, updateReviewSchema } from "./reviewSchemas.ts";
+
+// Mounted at /api/books/:bookId/reviews
+const reviewRouter = express.Router({ mergeParams: true });
+
+//Routes
+
+reviewRouter.post("/", authenticate, validate(createReviewSchema), createReview)
+reviewRouter.get("/", validate(listReviewsSchema), listReviews)
+reviewRouter.patch("/:reviewId", authenticate, validate(updateReviewSchema), updateReview)
+reviewRouter.delete("/:reviewId", authenticate, validate(reviewIdSchema), deleteReview)
+
+export default reviewRouter;
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+
+const rating = z.number().int("rating must be an integer").min(1).max(5);
+const comment = z.string().trim().max(2000);
+
+export const listReviewsSchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+};
+
+export const createReviewSchema = {
+  params: z.object({ bookId: objectId("bookId") }),
+  body: z.object({ rating, comment: comment.optional() }),
+};
+
+export const reviewIdSchema = {
+  params: z.object({
+    bookId: objectId("bookId"),
+    reviewId: objectId("reviewId"),
+  }),
+};
+
+export const updateReviewSchema = {
+  params: reviewIdSchema.params,
+  body: z
+    .object({ rating: rating.optional(), comment: comment.optional() })
+    .refine((b) => b.rating !== undefined || b.comment !== undefined, {
+      message: "Provide a rating and/or comment to update",
+    }),
+};
@@ -0,0 +1,12 @@
+import type mongoose from "mongoose";
+
+export interface Review {
+  _id: string;
+  book: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  // Integer from 1 to 5
+  rating: number;
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
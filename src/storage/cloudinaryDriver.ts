@@ -0,0 +1,135 @@
+import cloudinary from "../config/cloudinary.ts";
+import type {
+  AssetStat,
+  StorageDriver,
+  StorageResourceType,
+  StoredAsset,
+  UploadOptions,
+} from "./storageTypes.ts";
+
+const DEFAULT_SIGNED_URL_TTL = 300;
+
+/**
+ * Cloudinary storage driver. The Cloudinary `public_id` is used as the asset ID
+ * (raw resources keep their extension as part of it).
+ */
+const cloudinaryDriver: StorageDriver = {
+  name: "cloudinary",
+
+  async upload(filePath: string, options: UploadOptions): Promise<StoredAsset> {
+    const result = await cloudinary.uploader.upload(filePath, {
+      resource_type: options.resourceType,
+      filename_override: options.filename,
+      folder: options.folder,
+      ...(options.format ? { format: options.format } : {}),
+    });
+
+    if (!result?.public_id || !result.secure_url) {
+      throw new Error("Cloudinary upload did not return a public ID / secure URL");
+    }
+
+    return {
+      assetId: result.public_id,
+      url: result.secure_url,
+      resourceType: options.resourceType,
+      bytes: result.bytes,
+      ...(result.format ? { format: result.format } : {}),
+    };
+  },
+
+  async delete(assetId: string, resourceType: StorageResourceType) {
+    await cloudinary.uploader.destroy(assetId, { resource_type: resourceType });
+  },
+
+  async getSignedUrl(
+    assetId: string,
+    resourceType: StorageResourceType,
+    expiresInSeconds = DEFAULT_SIGNED_URL_TTL
+  ) {
+    // Raw public IDs already carry their extension, so no format is passed
+    return cloudinary.utils.private_download_url(assetId, "", {
+      resource_type: resourceType,
+      type: "upload",
+      expires_at: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    });
+  },
+
+  async stat(
+    assetId: string,
+    resourceType: StorageResourceType
+  ): Promise<AssetStat | null> {
+    try {
+      const resource = await cloudinary.api.resource(assetId, {
+        resource_type: resourceType,
+      });
+      return {
+        assetId,
+        bytes: resource.bytes,
+        ...(resource.format ? { format: resource.format } : {}),
+        ...(resource.created_at
+          ? { createdAt: new Date(resource.created_at) }
+          : {}),
+      };
+    } catch (err) {
+      const httpCode = (err as { error?: { http_code?: number } })?.error
+        ?.http_code;
+      if (httpCode === 404) return null;
+      throw err;
+    }
+  },
+
+  async list(folder: string, resourceType: StorageResourceType) {
+    const assets: AssetStat[] = [];
+    let nextCursor: string | undefined;
+
+    do {
+      const page = await cloudinary.api.resources({
+        type: "upload",
+        resource_type: resourceType,
+        prefix: `${folder}/`,
+        max_results: 500,
+        ...(nextCursor ? { next_cursor: nextCursor } : {}),
+      });
+      for (const resource of page.resources) {
+        assets.push({
+          assetId: resource.public_id,
+          bytes: resource.bytes,
+          ...(resource.format ? { format: resource.format } : {}),
+          createdAt: new Date(resource.created_at),
+        });
+      }
+      nextCursor = page.next_cursor;
+    } while (nextCursor);
+
+    return assets;
+  },
+
+  async ping() {
+    await cloudinary.api.ping();
+  },
+
+  // .../<resource_type>/upload/[<transformations>/][v<version>/]<public_id>
+  // Image public IDs have no extension, raw ones keep it
+  assetIdFromUrl(url: string, resourceType: StorageResourceType) {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(url).pathname);
+    } catch {
+      return null;
+    }
+    const marker = `/${resourceType}/upload/`;
+    const start = pathname.indexOf(marker);
+    if (start === -1) return null;
+
+    const segments = pathname.slice(start + marker.length).split("/");
+    const version = segments.findIndex((segment) => /^v\d+$/.test(segment));
+    const publicId = segments.slice(version + 1).join("/");
+    if (!publicId) return null;
+
+    return resourceType === "image"
+      ? publicId.replace(/\.[^./]+$/, "")
+      : publicId;
+  },
+};
+
+export default cloudinaryDriver;
@@ -0,0 +1,156 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { config } from "../config/config.ts";
+import type {
+  AssetStat,
+  StorageDriver,
+  StorageResourceType,
+  StoredAsset,
+  UploadOptions,
+} from "./storageTypes.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const DEFAULT_SIGNED_URL_TTL = 300;
+
+export const localStorageRoot = path.resolve(
+  config.localStorageDir || path.resolve(__dirname, "../../public/data/storage")
+);
+
+const baseUrl = () =>
+  (config.appUrl || `http://localhost:${config.port}`).replace(/\/$/, "");
+
+const signingSecret = () => config.storageSigningSecret || config.jwtSecret || "";
+
+/**
+ * Resolve an asset ID to an absolute path, refusing anything that would
+ * escape the resource type directory.
+ */
+const resolveAssetPath = (assetId: string, resourceType: StorageResourceType) => {
+  const typeRoot = path.join(localStorageRoot, resourceType);
+  const assetPath = path.resolve(typeRoot, assetId);
+  if (!assetPath.startsWith(typeRoot + path.sep)) {
+    throw new Error(`Invalid asset id: ${assetId}`);
+  }
+  return assetPath;
+};
+
+/**
+ * HMAC over "<resourceType>/<assetId>:<expires>", verified by the local
+ * storage router before serving raw assets.
+ */
+export const signLocalAsset = (
+  resourceType: StorageResourceType,
+  assetId: string,
+  expires: number
+) =>
+  crypto
+    .createHmac("sha256", signingSecret())
+    .update(`${resourceType}/${assetId}:${expires}`)
+    .digest("hex");
+
+/**
+ * Filesystem storage driver, used so dev and CI can run the whole book
+ * lifecycle without Cloudinary. Assets live under
+ * `<localStorageRoot>/<resourceType>/<folder>/<uuid>.<ext>` and the asset ID is
+ * the `<folder>/<uuid>.<ext>` part.
+ */
+const localDriver: StorageDriver = {
+  name: "local",
+
+  async upload(filePath: string, options: UploadOptions): Promise<StoredAsset> {
+    const ext = options.format || path.extname(options.filename).slice(1);
+    const assetId = `${options.folder}/${crypto.randomUUID()}${ext ? `.${ext}` : ""}`;
+    const target = resolveAssetPath(assetId, options.resourceType);
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.copyFile(filePath, target);
+    const { size } = await fs.promises.stat(target);
+
+    return {
+      assetId,
+      url: `${baseUrl()}/storage/${options.resourceType}/${assetId}`,
+      resourceType: options.resourceType,
+      bytes: size,
+      ...(ext ? { format: ext } : {}),
+    };
+  },
+
+  async delete(assetId: string, resourceType: StorageResourceType) {
+    await fs.promises.rm(resolveAssetPath(assetId, resourceType), {
+      force: true,
+    });
+  },
+
+  async getSignedUrl(
+    assetId: string,
+    resourceType: StorageResourceType,
+    expiresInSeconds = DEFAULT_SIGNED_URL_TTL
+  ) {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = signLocalAsset(resourceType, assetId, expires);
+    return `${baseUrl()}/storage/${resourceType}/${assetId}?expires=${expires}&signature=${signature}`;
+  },
+
+  async stat(
+    assetId: string,
+    resourceType: StorageResourceType
+  ): Promise<AssetStat | null> {
+    try {
+      const stats = await fs.promises.stat(resolveAssetPath(assetId, resourceType));
+      const ext = path.extname(assetId).slice(1);
+      return {
+        assetId,
+        bytes: stats.size,
+        ...(ext ? { format: ext } : {}),
+        createdAt: stats.birthtime,
+      };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  },
+
+  async list(folder: string, resourceType: StorageResourceType) {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(
+        resolveAssetPath(folder, resourceType)
+      );
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const assets: AssetStat[] = [];
+    for (const name of names) {
+      const asset = await this.stat(`${folder}/${name}`, resourceType);
+      if (asset) assets.push(asset);
+    }
+    return assets;
+  },
+
+  async ping() {
+    await fs.promises.mkdir(localStorageRoot, { recursive: true });
+    await fs.promises.access(localStorageRoot, fs.constants.W_OK);
+  },
+
+  assetIdFromUrl(url: string, resourceType: StorageResourceType) {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(url).pathname);
+    } catch {
+      return null;
+    }
+    const prefix = `/storage/${resourceType}/`;
+    return pathname.startsWith(prefix) && pathname.length > prefix.length
+      ? pathname.slice(prefix.length)
+      : null;
+  },
+};
+
+export default localDriver;
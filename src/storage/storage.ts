@@ -0,0 +1,37 @@
+import { config } from "../config/config.ts";
+import { uploadBytes, uploadDuration } from "../observability/metrics.ts";
+import cloudinaryDriver from "./cloudinaryDriver.ts";
+import localDriver from "./localDriver.ts";
+import type { StorageDriver } from "./storageTypes.ts";
+
+const drivers: Record<string, StorageDriver> = {
+  cloudinary: cloudinaryDriver,
+  local: localDriver,
+};
+
+const selected = drivers[config.storageDriver];
+if (!selected) {
+  throw new Error(
+    `Unknown STORAGE_DRIVER "${config.storageDriver}", expected one of: ${Object.keys(drivers).join(", ")}`
+  );
+}
+
+// Every upload, whatever the driver, feeds the upload size and duration
+// metrics
+const storage: StorageDriver = {
+  ...selected,
+  upload: async (filePath, options) => {
+    const end = uploadDuration.startTimer({ folder: options.folder });
+    try {
+      const asset = await selected.upload(filePath, options);
+      end({ outcome: "success" });
+      uploadBytes.observe({ folder: options.folder }, asset.bytes);
+      return asset;
+    } catch (error) {
+      end({ outcome: "failure" });
+      throw error;
+    }
+  },
+};
+
+export default storage;
@@ -0,0 +1,48 @@
+import crypto from "node:crypto";
+import path from "node:path";
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+import { ForbiddenError } from "../errors/appError.ts";
+import { localStorageRoot, signLocalAsset } from "./localDriver.ts";
+
+/**
+ * Serves assets written by the local storage driver. Images are public (like
+ * Cloudinary delivery URLs); raw book files need a valid, unexpired signature
+ * produced by `localDriver.getSignedUrl`.
+ */
+const verifySignature = (req: Request, res: Response, next: NextFunction) => {
+  const expires = Number(req.query.expires);
+  const signature = req.query.signature;
+
+  if (!expires || typeof signature !== "string") {
+    return next(new ForbiddenError("Signed URL required"));
+  }
+  if (expires < Math.floor(Date.now() / 1000)) {
+    return next(new ForbiddenError("Signed URL has expired", { code: "SIGNED_URL_EXPIRED" }));
+  }
+
+  const assetId = decodeURIComponent(req.path).replace(/^\//, "");
+  const expected = signLocalAsset("raw", assetId, expires);
+  const valid =
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+
+  if (!valid) {
+    return next(new ForbiddenError("Invalid signature", { code: "INVALID_SIGNATURE" }));
+  }
+  next();
+};
+
+const storageRouter = express.Router();
+
+storageRouter.use(
+  "/image",
+  express.static(path.join(localStorageRoot, "image"), { fallthrough: false })
+);
+storageRouter.use(
+  "/raw",
+  verifySignature,
+  express.static(path.join(localStorageRoot, "raw"), { fallthrough: false })
+);
+
+export default storageRouter;
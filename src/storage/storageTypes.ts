@@ -0,0 +1,46 @@
+export type StorageResourceType = "image" | "raw";
+
+export interface UploadOptions {
+  folder: string;
+  filename: string;
+  resourceType: StorageResourceType;
+  format?: string;
+}
+
+export interface StoredAsset {
+  // Provider-specific identifier used for every later operation on the asset
+  assetId: string;
+  url: string;
+  resourceType: StorageResourceType;
+  bytes: number;
+  format?: string;
+}
+
+export interface AssetStat {
+  assetId: string;
+  bytes: number;
+  format?: string;
+  createdAt?: Date;
+}
+
+export interface StorageDriver {
+  name: string;
+  upload(filePath: string, options: UploadOptions): Promise<StoredAsset>;
+  delete(assetId: string, resourceType: StorageResourceType): Promise<void>;
+  getSignedUrl(
+    assetId: string,
+    resourceType: StorageResourceType,
+    expiresInSeconds?: number
+  ): Promise<string>;
+  stat(
+    assetId: string,
+    resourceType: StorageResourceType
+  ): Promise<AssetStat | null>;
+  // Every asset stored under `folder`, used by the reconciliation command
+  list(folder: string, resourceType: StorageResourceType): Promise<AssetStat[]>;
+  // Throws when the backend cannot be reached, used by GET /readyz
+  ping(): Promise<void>;
+  // Asset ID behind a URL this driver returned, for documents stored before
+  // asset IDs were recorded; null when the URL is not one of its own
+  assetIdFromUrl(url: string, resourceType: StorageResourceType): string | null;
+}
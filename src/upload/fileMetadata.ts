@@ -0,0 +1,92 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import type { UploadFormat } from "./uploadTypes.ts";
+
+export interface FileMetadata {
+  bytes: number;
+  // Hex SHA-256 of the file content
+  checksum: string;
+  pageCount?: number;
+}
+
+export const sha256File = (filePath: string) =>
+  new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+
+// `/Count` of a page tree node, whichever order its keys are in
+const PAGE_TREE_COUNTS = [
+  /\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)/g,
+  /\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g,
+];
+const PAGE_OBJECT = /\/Type\s*\/Page\b(?!s)/g;
+
+// Kept from the previous chunk so a dictionary split between two chunks is
+// still matched whole
+const PDF_SCAN_OVERLAP = 64 * 1024;
+
+/**
+ * Best-effort PDF page count without a PDF parser: prefer the largest
+ * `/Count` of a page tree node, fall back to counting `/Type /Page` objects.
+ * Returns undefined when neither is visible (e.g. compressed object streams).
+ * The file is scanned in chunks; book PDFs can be hundreds of megabytes.
+ */
+const countPdfPages = async (filePath: string) => {
+  let treeCount = 0;
+  let pages = 0;
+  // File offset where the last counted page object ends, so matches in the
+  // overlap are not counted twice
+  let countedUpTo = 0;
+
+  const scan = (text: string, offset: number, final: boolean) => {
+    for (const pattern of PAGE_TREE_COUNTS) {
+      for (const match of text.matchAll(pattern)) {
+        treeCount = Math.max(treeCount, Number(match[1]));
+      }
+    }
+    for (const match of text.matchAll(PAGE_OBJECT)) {
+      const end = match.index + match[0].length;
+      // At the end of a chunk it may still turn out to be "/Pages"
+      if (offset + end <= countedUpTo || (!final && end === text.length)) continue;
+      pages += 1;
+      countedUpTo = offset + end;
+    }
+  };
+
+  let carry = "";
+  let carryOffset = 0;
+  for await (const chunk of fs.createReadStream(filePath, { encoding: "latin1" })) {
+    const text = carry + (chunk as string);
+    scan(text, carryOffset, false);
+    carry = text.slice(-PDF_SCAN_OVERLAP);
+    carryOffset += text.length - carry.length;
+  }
+  scan(carry, carryOffset, true);
+
+  return treeCount || pages || undefined;
+};
+
+/**
+ * Size, checksum and (for PDFs) page count of an uploaded file.
+ */
+export const extractFileMetadata = async (
+  filePath: string,
+  format: UploadFormat
+): Promise<FileMetadata> => {
+  const [{ size }, checksum] = await Promise.all([
+    fs.promises.stat(filePath),
+    sha256File(filePath),
+  ]);
+
+  const pageCount = format === "pdf" ? await countPdfPages(filePath) : undefined;
+
+  return {
+    bytes: size,
+    checksum,
+    ...(pageCount ? { pageCount } : {}),
+  };
+};
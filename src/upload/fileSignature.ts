@@ -0,0 +1,70 @@
+import fs from "node:fs";
+import type { UploadFormat } from "./uploadTypes.ts";
+
+// Covers the EPUB "mimetype" entry (offset 30) and the MOBI type (offset 60)
+const HEADER_BYTES = 68;
+
+export const MIME_TYPES: Record<UploadFormat, string> = {
+  pdf: "application/pdf",
+  epub: "application/epub+zip",
+  mobi: "application/x-mobipocket-ebook",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  zip: "application/zip",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+const startsWith = (buf: Buffer, bytes: number[] | string, offset = 0) => {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes);
+  return (
+    buf.length >= offset + expected.length &&
+    buf.subarray(offset, offset + expected.length).equals(expected)
+  );
+};
+
+/**
+ * Identify a file by its leading magic bytes. Returns null when the content
+ * does not match any supported format, regardless of the client-declared
+ * MIME type or extension.
+ */
+export const detectFormat = (header: Buffer): UploadFormat | null => {
+  if (startsWith(header, "%PDF-")) return "pdf";
+  // EPUB: a ZIP whose first, uncompressed entry is "mimetype"
+  if (
+    startsWith(header, [0x50, 0x4b, 0x03, 0x04]) &&
+    startsWith(header, "mimetype", 30) &&
+    startsWith(header, "application/epub+zip", 38)
+  ) {
+    return "epub";
+  }
+  // MOBI: PalmDB header with type/creator "BOOKMOBI"
+  if (startsWith(header, "BOOKMOBI", 60)) return "mobi";
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return "jpeg";
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "png";
+  if (startsWith(header, "RIFF") && startsWith(header, "WEBP", 8)) return "webp";
+  // Any other ZIP (EPUBs are caught above)
+  if (startsWith(header, [0x50, 0x4b, 0x03, 0x04])) return "zip";
+  // Text formats have no magic bytes: treat NUL-free content as text and
+  // tell JSON apart by its first character
+  if (header.length && !header.includes(0)) {
+    const text = header.toString("utf8").replace(/^\uFEFF/, "").trimStart();
+    return text.startsWith("{") || text.startsWith("[") ? "json" : "csv";
+  }
+  return null;
+};
+
+export const detectFileFormat = async (filePath: string) => {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, HEADER_BYTES, 0);
+    return detectFormat(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+};
+
+export const formatFromMimeType = (mimeType: string): UploadFormat | undefined =>
+  (Object.keys(MIME_TYPES) as UploadFormat[]).find((f) => MIME_TYPES[f] === mimeType);
@@ -0,0 +1,193 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { NextFunction, Request, Response } from "express";
+import multer from "multer";
+import {
+  BadRequestError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+} from "../errors/appError.ts";
+import { MIME_TYPES, detectFileFormat } from "./fileSignature.ts";
+import { describeMiddleware } from "../docs/routeMeta.ts";
+import type { UploadedFiles, UploadFieldRules } from "./uploadTypes.ts";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const uploadDir = path.resolve(__dirname, "../../public/data/uploads");
+
+const MB = 1024 * 1024;
+
+export const BOOK_UPLOAD_FIELDS: UploadFieldRules = {
+  coverImage: { maxBytes: 5 * MB, formats: ["jpeg", "png", "webp"] },
+  // One rendition per format
+  file: {
+    maxBytes: 30 * MB,
+    formats: ["pdf", "epub", "mobi"],
+    maxCount: 3,
+    uniqueFormats: true,
+  },
+};
+
+// Catalogue import: a CSV/JSON manifest plus a ZIP of covers and book files
+export const IMPORT_UPLOAD_FIELDS: UploadFieldRules = {
+  manifest: { maxBytes: 5 * MB, formats: ["csv", "json"], required: true },
+  archive: { maxBytes: 1024 * MB, formats: ["zip"], required: true },
+};
+
+export const AVATAR_UPLOAD_FIELDS: UploadFieldRules = {
+  avatar: { maxBytes: 2 * MB, formats: ["jpeg", "png", "webp"], required: true },
+};
+
+const uploadedFiles = (req: Request): Express.Multer.File[] => {
+  const files = req.files;
+  if (!files) return req.file ? [req.file] : [];
+  return Array.isArray(files) ? files : Object.values(files).flat();
+};
+
+// Temp files multer started writing for each request. Unlike `req.files`,
+// this includes a file still being received when the request was cut off.
+const tempFiles = new WeakMap<Request, string[]>();
+
+const diskStorage = multer.diskStorage({
+  destination: uploadDir,
+  filename: (req, file, cb) => {
+    const name = crypto.randomBytes(16).toString("hex");
+    tempFiles.set(req, [...(tempFiles.get(req) ?? []), path.join(uploadDir, name)]);
+    cb(null, name);
+  },
+});
+
+/**
+ * Best-effort removal of every temp file multer wrote for this request.
+ */
+export const cleanupUploadedFiles = async (req: Request) => {
+  const paths = new Set([
+    ...uploadedFiles(req).map((file) => file.path),
+    ...(tempFiles.get(req) ?? []),
+  ]);
+  await Promise.all(
+    [...paths].map((filePath) => fs.promises.unlink(filePath).catch(() => {}))
+  );
+};
+
+// Multipart requests still in flight, each settling once the response is
+// done and its temp files are gone
+const inFlightUploads = new Set<Promise<void>>();
+
+/**
+ * Resolve once every multipart request in flight has finished and removed
+ * its temp files. Used on shutdown, after the server stopped accepting
+ * connections.
+ */
+export const drainUploads = async () => {
+  await Promise.all(inFlightUploads);
+};
+
+/**
+ * Check each uploaded file against its field rule: size first, then the
+ * magic bytes. The client-supplied mimetype is replaced with the detected
+ * one so controllers never trust what the client declared.
+ */
+const verifyUploadedFiles = async (req: Request, rules: UploadFieldRules) => {
+  const files = (req.files ?? {}) as UploadedFiles;
+
+  for (const [field, rule] of Object.entries(rules)) {
+    const fieldFiles = files[field] ?? [];
+
+    if (!fieldFiles.length && rule.required) {
+      throw new BadRequestError(`Missing uploaded file: ${field}`, {
+        code: "MISSING_FILE",
+        details: { field },
+      });
+    }
+
+    const seenFormats = new Set<string>();
+    for (const file of fieldFiles) {
+      if (file.size > rule.maxBytes) {
+        throw new PayloadTooLargeError(
+          `${field} must be at most ${Math.floor(rule.maxBytes / MB)} MB`,
+          { code: "FILE_TOO_LARGE", details: { field, maxBytes: rule.maxBytes } }
+        );
+      }
+
+      const format = await detectFileFormat(file.path);
+      if (!format || !rule.formats.includes(format)) {
+        throw new UnsupportedMediaTypeError(
+          `${field} must be one of: ${rule.formats.join(", ")}`,
+          {
+            code: "UNSUPPORTED_FILE_TYPE",
+            details: { field, allowed: rule.formats },
+          }
+        );
+      }
+
+      if (rule.uniqueFormats && seenFormats.has(format)) {
+        throw new BadRequestError(`${field} contains more than one ${format} file`, {
+          code: "DUPLICATE_FORMAT",
+          details: { field, format },
+        });
+      }
+      seenFormats.add(format);
+
+      file.mimetype = MIME_TYPES[format];
+    }
+  }
+};
+
+/**
+ * Multipart upload for the given fields, followed by size and content-type
+ * verification. Everything is rejected before any remote upload, and temp
+ * files are removed once the response is done, on every path (success,
+ * validation failure, multer error or aborted request).
+ */
+export const createUploadMiddleware = (
+  fieldRules: UploadFieldRules,
+  options: { requireAll?: boolean } = {}
+) => {
+  const rules: UploadFieldRules = options.requireAll
+    ? Object.fromEntries(
+        Object.entries(fieldRules).map(([field, rule]) => [
+          field,
+          { ...rule, required: true },
+        ])
+      )
+    : fieldRules;
+  const largest = Math.max(...Object.values(rules).map((r) => r.maxBytes));
+  const upload = multer({
+    storage: diskStorage,
+    limits: {
+      fileSize: largest,
+      files: Object.values(rules).reduce((n, r) => n + (r.maxCount ?? 1), 0),
+    },
+  }).fields(
+    Object.entries(rules).map(([name, rule]) => ({
+      name,
+      maxCount: rule.maxCount ?? 1,
+    }))
+  );
+
+  const middleware = (req: Request, res: Response, next: NextFunction) => {
+    const done = new Promise<void>((resolve) => {
+      res.once("close", () => {
+        void cleanupUploadedFiles(req).then(resolve);
+      });
+    });
+    inFlightUploads.add(done);
+    void done.then(() => inFlightUploads.delete(done));
+
+    upload(req, res, (err?: unknown) => {
+      if (err) return next(err);
+
+      verifyUploadedFiles(req, rules).then(
+        () => next(),
+        (verifyErr) => next(verifyErr)
+      );
+    });
+  };
+
+  return describeMiddleware(middleware, { uploadFields: rules });
+};
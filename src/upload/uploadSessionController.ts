@@ -0,0 +1,413 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { NextFunction, Request, Response } from "express";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  InternalError,
+  NotFoundError,
+  UnsupportedMediaTypeError,
+  ValidationError,
+} from "../errors/appError.ts";
+import { config } from "../config/config.ts";
+import bookModel from "../book/bookModel.ts";
+import { createBookRecord, updateBookRecord } from "../book/bookService.ts";
+import { assertGenreExists } from "../genre/genreController.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import { isBookOwner, isStaff } from "../middlewares/authorize.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import { sha256File } from "./fileMetadata.ts";
+import { MIME_TYPES, detectFileFormat } from "./fileSignature.ts";
+import { BOOK_UPLOAD_FIELDS, uploadDir } from "./uploadMiddleware.ts";
+import uploadSessionModel from "./uploadSessionModel.ts";
+import type { UploadedFiles, UploadSession } from "./uploadTypes.ts";
+import type {
+  createUploadSessionSchema,
+  uploadChunkSchema,
+  uploadSessionIdSchema,
+} from "./uploadSessionSchemas.ts";
+import logger from "../observability/logger.ts";
+
+// Chunks are assembled here, one file per session
+export const sessionsDir = path.join(uploadDir, "sessions");
+
+export const sessionFilePath = (sessionId: string) =>
+  path.join(sessionsDir, `${sessionId}.part`);
+
+const sessionExpiry = () =>
+  new Date(Date.now() + config.uploadSessionTtlHours * 60 * 60 * 1000);
+
+const sessionNotFound = () =>
+  new NotFoundError("Upload session does not exist", {
+    code: "UPLOAD_NOT_FOUND",
+  });
+
+const toSessionResponse = (session: UploadSession) => ({
+  id: session._id,
+  filename: session.filename,
+  size: session.size,
+  offset: session.offset,
+  status: session.status,
+  book: session.book,
+  error: session.error,
+  expiresAt: session.expiresAt,
+  chunkSize: config.uploadChunkBytes,
+});
+
+// Sessions are private to the user who started them
+const findOwnSession = (req: Request, uploadId: string) =>
+  uploadSessionModel.findOne({
+    _id: uploadId,
+    createdBy: (req as AuthRequest).userId,
+  });
+
+const findOwnBook = async (req: Request, bookId: string) => {
+  const book = await bookModel.findOne({ _id: bookId, deletedAt: null });
+  if (!book) {
+    throw new NotFoundError("Book not found", { code: "BOOK_NOT_FOUND" });
+  }
+  if (!isBookOwner(req, book)) {
+    throw new ForbiddenError("Unauthorized access");
+  }
+  return book;
+};
+
+/**
+ * Start a chunked upload of one book file. The target book is checked now,
+ * so a client does not upload hundreds of megabytes only to be refused at
+ * the end.
+ */
+const createUploadSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { filename, size, checksum, bookId, book } = (
+    req as ValidatedRequest<typeof createUploadSessionSchema>
+  ).body;
+
+  let session;
+  try {
+    if (bookId) {
+      await findOwnBook(req, bookId);
+    } else if (book) {
+      await assertGenreExists(book.genre);
+    }
+
+    session = await uploadSessionModel.create({
+      createdBy: (req as AuthRequest).userId,
+      filename,
+      size,
+      checksum,
+      ...(bookId ? { book: bookId } : {}),
+      ...(book ? { metadata: book } : {}),
+      expiresAt: sessionExpiry(),
+    });
+
+    await fs.promises.mkdir(sessionsDir, { recursive: true });
+    await fs.promises.writeFile(sessionFilePath(String(session._id)), "");
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to create upload session");
+    if (session) await uploadSessionModel.deleteOne({ _id: session._id }).catch(() => {});
+    return next(new InternalError("Error while creating the upload session"));
+  }
+
+  res.status(201).json({
+    message: "Upload session created sucessfully",
+    upload: toSessionResponse(session),
+    uploadUrl: `${req.baseUrl}/${session._id}`,
+  });
+};
+
+/**
+ * Append one chunk. Chunks must arrive in order: `offset` has to equal the
+ * bytes received so far, otherwise the current offset is returned in a 409
+ * so the client can resume from there.
+ */
+const uploadChunk = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, query } = req as unknown as ValidatedRequest<
+    typeof uploadChunkSchema
+  >;
+  const chunk = req.body;
+
+  if (!Buffer.isBuffer(chunk) || !chunk.length) {
+    return next(
+      new BadRequestError("Send the chunk as an application/octet-stream body", {
+        code: "EMPTY_CHUNK",
+      })
+    );
+  }
+
+  let updated;
+  try {
+    const session = await findOwnSession(req, params.uploadId);
+    if (!session) {
+      return next(sessionNotFound());
+    }
+    if (session.status !== "active") {
+      return next(
+        new ConflictError(`Upload session is ${session.status}`, {
+          code: "UPLOAD_NOT_ACTIVE",
+        })
+      );
+    }
+    if (query.offset !== session.offset) {
+      return next(
+        new ConflictError("Chunk offset does not match the upload offset", {
+          code: "UPLOAD_OFFSET_MISMATCH",
+          details: { offset: session.offset },
+        })
+      );
+    }
+    if (query.offset + chunk.length > session.size) {
+      return next(
+        new BadRequestError("Chunk goes past the declared file size", {
+          code: "CHUNK_OUT_OF_RANGE",
+          details: { offset: session.offset, size: session.size },
+        })
+      );
+    }
+
+    const handle = await fs.promises.open(sessionFilePath(params.uploadId), "r+");
+    try {
+      await handle.write(chunk, 0, chunk.length, query.offset);
+    } finally {
+      await handle.close();
+    }
+
+    // Only advance if no other request got there first; a racing chunk with
+    // different bytes would still be caught by the checksum on completion
+    updated = await uploadSessionModel.findOneAndUpdate(
+      { _id: params.uploadId, status: "active", offset: query.offset },
+      { $inc: { offset: chunk.length }, $set: { expiresAt: sessionExpiry() } },
+      { new: true }
+    );
+  } catch (error) {
+    logger.error({ err: error }, "Failed to store upload chunk");
+    return next(new InternalError("Error while storing the chunk"));
+  }
+
+  if (!updated) {
+    return next(
+      new ConflictError("Chunk offset does not match the upload offset", {
+        code: "UPLOAD_OFFSET_MISMATCH",
+      })
+    );
+  }
+
+  res.json({
+    message: "Chunk uploaded sucessfully",
+    upload: toSessionResponse(updated),
+  });
+};
+
+const getUploadSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { uploadId } = (req as ValidatedRequest<typeof uploadSessionIdSchema>)
+    .params;
+
+  try {
+    const session = await findOwnSession(req, uploadId);
+    if (!session) {
+      return next(sessionNotFound());
+    }
+
+    res.json({
+      message: "Upload session fetched sucessfully",
+      upload: toSessionResponse(session),
+    });
+  } catch (error) {
+    return next(new InternalError("Error while fetching the upload session"));
+  }
+};
+
+const abortUploadSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { uploadId } = (req as ValidatedRequest<typeof uploadSessionIdSchema>)
+    .params;
+
+  try {
+    const session = await findOwnSession(req, uploadId);
+    if (!session) {
+      return next(sessionNotFound());
+    }
+    if (session.status === "processing") {
+      return next(
+        new ConflictError("Upload session is being completed", {
+          code: "UPLOAD_NOT_ACTIVE",
+        })
+      );
+    }
+
+    await uploadSessionModel.deleteOne({ _id: uploadId });
+    await fs.promises.rm(sessionFilePath(uploadId), { force: true });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to abort upload session");
+    return next(new InternalError("Error while aborting the upload session"));
+  }
+
+  res.status(204).end();
+};
+
+/**
+ * Finish an upload:
+ *  - every byte must have arrived and match the declared checksum
+ *  - the file must be a supported book format (magic bytes)
+ *  - hand off to the book service: create the book from the session's
+ *    metadata and the cover sent with this request, or add the file as a
+ *    rendition of the session's book
+ * A checksum or format failure ends the session. Other failures (e.g. an
+ * invalid cover) leave it active, so completion can be retried without
+ * uploading the file again.
+ */
+const completeUpload = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const { uploadId } = (req as ValidatedRequest<typeof uploadSessionIdSchema>)
+    .params;
+  const userId = (req as AuthRequest).userId;
+  const coverFile = (req.files as UploadedFiles | undefined)?.coverImage?.[0];
+  const filePath = sessionFilePath(uploadId);
+
+  let session;
+  try {
+    session = await findOwnSession(req, uploadId);
+  } catch (error) {
+    return next(new InternalError("Error while fetching the upload session"));
+  }
+
+  if (!session) {
+    return next(sessionNotFound());
+  }
+  if (session.status !== "active") {
+    return next(
+      new ConflictError(`Upload session is ${session.status}`, {
+        code: "UPLOAD_NOT_ACTIVE",
+      })
+    );
+  }
+  if (session.offset !== session.size) {
+    return next(
+      new ConflictError("Upload is not complete yet", {
+        code: "UPLOAD_INCOMPLETE",
+        details: { offset: session.offset, size: session.size },
+      })
+    );
+  }
+  if (!session.book && !coverFile) {
+    return next(
+      new BadRequestError("Missing uploaded file: coverImage", {
+        code: "MISSING_FILE",
+        details: { field: "coverImage" },
+      })
+    );
+  }
+
+  // Claim the session so a second completion request cannot run alongside
+  const claimed = await uploadSessionModel
+    .updateOne({ _id: uploadId, status: "active" }, { status: "processing" })
+    .catch(() => null);
+  if (!claimed?.modifiedCount) {
+    return next(
+      new ConflictError("Upload session is being completed", {
+        code: "UPLOAD_NOT_ACTIVE",
+      })
+    );
+  }
+
+  const failSession = async (error: AppError) => {
+    await uploadSessionModel.updateOne(
+      { _id: uploadId },
+      { status: "failed", error: error.message }
+    );
+    await fs.promises.rm(filePath, { force: true });
+    return error;
+  };
+
+  let book;
+  try {
+    if ((await sha256File(filePath)) !== session.checksum) {
+      throw await failSession(
+        new ValidationError("Uploaded file does not match its checksum", {
+          code: "CHECKSUM_MISMATCH",
+        })
+      );
+    }
+
+    const rule = BOOK_UPLOAD_FIELDS.file!;
+    const format = await detectFileFormat(filePath);
+    if (!format || !rule.formats.includes(format)) {
+      throw await failSession(
+        new UnsupportedMediaTypeError(
+          `file must be one of: ${rule.formats.join(", ")}`,
+          { code: "UNSUPPORTED_FILE_TYPE", details: { allowed: rule.formats } }
+        )
+      );
+    }
+
+    const bookFile = {
+      path: filePath,
+      filename: uploadId,
+      mimetype: MIME_TYPES[format],
+    };
+
+    if (session.book) {
+      const existing = await findOwnBook(req, String(session.book));
+      book = await updateBookRecord(existing, {
+        metadata: {},
+        bookFiles: [bookFile],
+        actorId: userId,
+        actorIsStaff: isStaff((req as AuthRequest).role),
+      });
+    } else {
+      const metadata = session.metadata!;
+      await assertGenreExists(metadata.genre);
+      book = await createBookRecord({
+        metadata,
+        author: userId,
+        coverFile: coverFile!,
+        bookFiles: [bookFile],
+      });
+    }
+
+    await uploadSessionModel.updateOne(
+      { _id: uploadId },
+      { status: "completed", book: book._id, expiresAt: sessionExpiry() }
+    );
+    await fs.promises.rm(filePath, { force: true });
+  } catch (error) {
+    // Unless the session was failed above, let the client retry
+    await uploadSessionModel
+      .updateOne({ _id: uploadId, status: "processing" }, { status: "active" })
+      .catch(() => {});
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Unexpected error in completeUpload");
+    return next(new InternalError("Unexpected error while completing the upload"));
+  }
+
+  return res.status(session.book ? 200 : 201).json({
+    id: book._id,
+    message: session.book ? "File updated successfully" : "Book uploaded successfully",
+    book,
+    formats: book.files.map((r) => r.format),
+  });
+};
+
+export {
+  createUploadSession,
+  uploadChunk,
+  getUploadSession,
+  abortUploadSession,
+  completeUpload,
+};
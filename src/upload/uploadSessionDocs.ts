@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { bookSchema } from "../book/bookDocs.ts";
+import { BOOK_FORMATS } from "../book/bookTypes.ts";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  abortUploadSession,
+  completeUpload,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+} from "./uploadSessionController.ts";
+
+const upload = component(
+  "UploadSession",
+  z.object({
+    id: objectIdString,
+    filename: z.string(),
+    size: z.int(),
+    offset: z.int().meta({ description: "Bytes received; the next chunk starts here" }),
+    status: z.enum(["active", "processing", "completed", "failed"]),
+    book: objectIdString.optional(),
+    error: z.string().optional(),
+    expiresAt: dateTime,
+    chunkSize: z.int().meta({ description: "Largest accepted chunk in bytes" }),
+  })
+);
+
+const uploadResponse = z.object({ message, upload });
+
+export const uploadSessionDocs: RouteDocs = new Map([
+  [
+    createUploadSession,
+    {
+      summary: "Start a chunked upload",
+      description:
+        "For a new book (`book`) or a new rendition of one of yours (`bookId`).",
+      status: 201,
+      response: uploadResponse.extend({
+        uploadUrl: z.string().meta({ description: "Where to PUT the chunks" }),
+      }),
+    },
+  ],
+  [
+    getUploadSession,
+    {
+      summary: "Get an upload's progress",
+      description: "Use `offset` to resume an interrupted upload.",
+      response: uploadResponse,
+    },
+  ],
+  [
+    uploadChunk,
+    {
+      summary: "Upload the next chunk",
+      description:
+        "Chunks are appended in order; `offset` must equal the bytes received so far.",
+      requestMedia: {
+        "application/octet-stream": { type: "string", format: "binary" },
+      },
+      response: uploadResponse,
+      responses: { 409: "The offset does not match the upload offset" },
+    },
+  ],
+  [
+    completeUpload,
+    {
+      summary: "Finish an upload",
+      description:
+        "Verifies the file and creates the book (201, with its cover) or adds the rendition (200). Adding a rendition sends an approved book back to review, as an update does.",
+      status: 201,
+      response: z.object({
+        message,
+        book: bookSchema,
+        id: objectIdString.meta({ deprecated: true, description: "Use book._id" }),
+        formats: z.array(z.enum(BOOK_FORMATS)),
+      }),
+      responses: {
+        200: "The file was added to an existing book",
+        403: "The book is no longer yours to update",
+        409: "The upload is incomplete or no longer active, or the book was changed by another request",
+      },
+    },
+  ],
+  [
+    abortUploadSession,
+    {
+      summary: "Abort an upload",
+      status: 204,
+      responses: { 409: "The upload is being completed" },
+    },
+  ],
+]);
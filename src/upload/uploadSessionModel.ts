@@ -0,0 +1,34 @@
+import mongoose from "mongoose";
+import type { UploadSession } from "./uploadTypes.ts";
+
+const uploadSessionSchema = new mongoose.Schema<UploadSession>(
+  {
+    createdBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+    },
+    filename: { type: String, required: true },
+    size: { type: Number, required: true },
+    checksum: { type: String, required: true },
+    offset: { type: Number, default: 0 },
+    status: {
+      type: String,
+      enum: ["active", "processing", "completed", "failed"],
+      default: "active",
+    },
+    book: { type: mongoose.Schema.Types.ObjectId, ref: "Books" },
+    // Already validated against createBookSchema when the session started
+    metadata: { type: mongoose.Schema.Types.Mixed },
+    error: { type: String },
+    expiresAt: { type: Date, required: true, index: true },
+  },
+  { timestamps: true }
+);
+
+const uploadSessionModel = mongoose.model<UploadSession>(
+  "UploadSessions",
+  uploadSessionSchema
+);
+
+export default uploadSessionModel;
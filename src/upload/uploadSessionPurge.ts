@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import path from "node:path";
+import { config } from "../config/config.ts";
+import uploadSessionModel from "./uploadSessionModel.ts";
+import { sessionFilePath, sessionsDir } from "./uploadSessionController.ts";
+import logger from "../observability/logger.ts";
+
+/**
+ * Delete expired upload sessions with their chunk files, then any chunk
+ * file no session refers to (e.g. left behind by a crash). Returns the
+ * number of sessions removed.
+ */
+export const purgeExpiredUploadSessions = async () => {
+  const expired = await uploadSessionModel
+    .find({ expiresAt: { $lte: new Date() } }, "_id")
+    .lean();
+
+  for (const { _id } of expired) {
+    await fs.promises.rm(sessionFilePath(String(_id)), { force: true });
+  }
+  await uploadSessionModel.deleteMany({
+    _id: { $in: expired.map(({ _id }) => _id) },
+  });
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(sessionsDir);
+  } catch {
+    return expired.length;
+  }
+  const known = new Set(
+    (await uploadSessionModel.find({}, "_id").lean()).map(({ _id }) =>
+      path.basename(sessionFilePath(String(_id)))
+    )
+  );
+  // Leave files alone while their session is still being created
+  const cutoff = Date.now() - 60 * 60 * 1000;
+  for (const file of files) {
+    if (known.has(file)) continue;
+    const filePath = path.join(sessionsDir, file);
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    if (stat && stat.mtimeMs < cutoff) {
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  return expired.length;
+};
+
+/**
+ * Run the purge now and then every `uploadSessionPurgeIntervalMinutes`. The
+ * timer does not keep the process alive on its own.
+ */
+export const startUploadSessionPurgeJob = () => {
+  const run = () =>
+    purgeExpiredUploadSessions()
+      .then((purged) => {
+        if (purged) logger.info(`Removed ${purged} expired upload session(s)`);
+      })
+      .catch((error) => logger.error({ err: error }, "Upload session purge failed"));
+
+  run();
+  const timer = setInterval(
+    run,
+    config.uploadSessionPurgeIntervalMinutes * 60 * 1000
+  );
+  timer.unref();
+  return timer;
+};
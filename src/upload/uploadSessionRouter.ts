@@ -0,0 +1,36 @@
+import express from "express";
+import { abortUploadSession, completeUpload, createUploadSession, getUploadSession, uploadChunk } from "./uploadSessionController.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import authorize, { requireVerifiedEmail } from "../middlewares/authorize.ts";
+import validate from "../middlewares/validate.ts";
+import { createUploadSessionSchema, uploadChunkSchema, uploadSessionIdSchema } from "./uploadSessionSchemas.ts";
+import { BOOK_UPLOAD_FIELDS, createUploadMiddleware } from "./uploadMiddleware.ts";
+import rateLimit from "../middlewares/rateLimit.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import { config } from "../config/config.ts";
+
+const uploadSessionRouter = express.Router();
+
+// Shares the budget of the book write limiter in bookRouter.ts
+const writeLimiter = rateLimit({
+    name: "book-write",
+    windowMs: 60 * 60 * 1000,
+    max: config.bookWritesPerHour,
+    key: (req) => (req as AuthRequest).userId,
+    message: "Too many book changes, try again later",
+})
+
+const chunkBody = express.raw({ type: "application/octet-stream", limit: config.uploadChunkBytes })
+
+// The cover of a new book travels with the completion request
+const COMPLETE_UPLOAD_FIELDS = { coverImage: BOOK_UPLOAD_FIELDS.coverImage! }
+
+//Routes
+
+uploadSessionRouter.post("/", authenticate, authorize("author", "moderator", "admin"), requireVerifiedEmail, writeLimiter, validate(createUploadSessionSchema), createUploadSession)
+uploadSessionRouter.get("/:uploadId", authenticate, validate(uploadSessionIdSchema), getUploadSession)
+uploadSessionRouter.put("/:uploadId", authenticate, chunkBody, validate(uploadChunkSchema), uploadChunk)
+uploadSessionRouter.post("/:uploadId/complete", authenticate, createUploadMiddleware(COMPLETE_UPLOAD_FIELDS), validate(uploadSessionIdSchema), completeUpload)
+uploadSessionRouter.delete("/:uploadId", authenticate, validate(uploadSessionIdSchema), abortUploadSession)
+
+export default uploadSessionRouter;
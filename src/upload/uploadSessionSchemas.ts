@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { config } from "../config/config.ts";
+import { objectId } from "../middlewares/validate.ts";
+import { createBookSchema } from "../book/bookSchemas.ts";
+
+const uploadIdParams = z.object({ uploadId: objectId("uploadId") });
+
+/**
+ * Start a session for either a new book (`book` carries the same metadata
+ * `POST /api/books` accepts) or a new rendition of an existing one
+ * (`bookId`).
+ */
+export const createUploadSessionSchema = {
+  body: z
+    .object({
+      filename: z.string().trim().min(1, "filename is required").max(255),
+      size: z
+        .number()
+        .int()
+        .min(1)
+        .max(config.maxResumableUploadBytes, {
+          message: `size must be at most ${config.maxResumableUploadBytes} bytes`,
+        }),
+      checksum: z
+        .string()
+        .trim()
+        .toLowerCase()
+        .regex(/^[a-f0-9]{64}$/, "checksum must be a hex SHA-256 digest"),
+      bookId: objectId("bookId").optional(),
+      book: createBookSchema.body.optional(),
+    })
+    .refine((body) => !body.bookId !== !body.book, {
+      message: "Send exactly one of bookId or book",
+      path: ["book"],
+    }),
+};
+
+export const uploadSessionIdSchema = {
+  params: uploadIdParams,
+};
+
+export const uploadChunkSchema = {
+  params: uploadIdParams,
+  query: z.object({
+    offset: z.coerce.number().int().min(0),
+  }),
+};
@@ -0,0 +1,60 @@
+import type mongoose from "mongoose";
+import type { BookMetadata } from "../book/bookTypes.ts";
+
+export type UploadFormat =
+  | "pdf"
+  | "epub"
+  | "mobi"
+  | "jpeg"
+  | "png"
+  | "webp"
+  | "zip"
+  | "csv"
+  | "json";
+
+export interface UploadFieldRule {
+  maxBytes: number;
+  formats: UploadFormat[];
+  // Reject the request when the field is missing
+  required?: boolean;
+  maxCount?: number;
+  // Reject several files of the same detected format in this field
+  uniqueFormats?: boolean;
+}
+
+export type UploadFieldRules = Record<string, UploadFieldRule>;
+
+export type UploadedFiles = { [fieldname: string]: Express.Multer.File[] };
+
+export type UploadSessionStatus =
+  | "active"
+  // Being verified and handed to the book service
+  | "processing"
+  | "completed"
+  | "failed";
+
+/**
+ * A chunked upload of one book file. Chunks are appended in order to a
+ * file in the uploads directory; on completion the file is verified against
+ * `checksum` and either creates a book from `metadata` or becomes a new
+ * rendition of `book`.
+ */
+export interface UploadSession {
+  _id: string;
+  createdBy: mongoose.Types.ObjectId;
+  filename: string;
+  // Declared total size in bytes
+  size: number;
+  // Hex SHA-256 the assembled file must match
+  checksum: string;
+  // Bytes received so far; the next chunk must start here
+  offset: number;
+  status: UploadSessionStatus;
+  // Existing book to add the rendition to, or the book created on completion
+  book?: mongoose.Types.ObjectId;
+  // Metadata of the book to create; absent when `book` was given up front
+  metadata?: BookMetadata;
+  error?: string;
+  // Pushed forward by every chunk; expired sessions are garbage-collected
+  expiresAt: Date;
+}
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import type { ActionToken } from "./userTypes.ts";
+
+const actionTokenSchema = new mongoose.Schema<ActionToken>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+      index: true,
+    },
+    purpose: {
+      type: String,
+      enum: ["verify-email", "reset-password"],
+      required: true,
+    },
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    usedAt: { type: Date },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+actionTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const actionTokenModel = mongoose.model<ActionToken>(
+  "ActionTokens",
+  actionTokenSchema
+);
+
+export default actionTokenModel;
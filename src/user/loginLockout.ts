@@ -0,0 +1,57 @@
+import { config } from "../config/config.ts";
+import { TooManyRequestsError } from "../errors/appError.ts";
+import store from "../rateLimit/store.ts";
+
+// Failed attempts are forgotten a day after the first one in the window
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Keyed by the submitted email, so unknown addresses lock exactly like
+// real ones and the lockout cannot be used to probe for accounts
+const failureKey = (email: string) => `login-failures:${email}`;
+const lockKey = (email: string) => `login-lock:${email}`;
+
+const lockedError = (resetAt: Date) =>
+  new TooManyRequestsError(
+    "Too many failed login attempts, try again later",
+    {
+      code: "ACCOUNT_LOCKED",
+      retryAfter: Math.max(1, Math.ceil((resetAt.getTime() - Date.now()) / 1000)),
+    }
+  );
+
+/**
+ * Reject the login up front while the account is locked.
+ */
+export const assertLoginAllowed = async (email: string) => {
+  const lock = await store.get(lockKey(email));
+  if (lock) {
+    throw lockedError(lock.resetAt);
+  }
+};
+
+/**
+ * Count a failed login. Once `loginMaxAttempts` is reached the account is
+ * locked for `loginLockoutBaseSeconds`, doubling with every further failure
+ * up to `loginLockoutMaxSeconds`. Returns the lock error when this failure
+ * started one.
+ */
+export const recordLoginFailure = async (email: string) => {
+  const failures = await store.increment(failureKey(email), FAILURE_WINDOW_MS);
+
+  const overLimit = failures.count - config.loginMaxAttempts;
+  if (overLimit < 0) return undefined;
+
+  const lockSeconds = Math.min(
+    config.loginLockoutBaseSeconds * 2 ** overLimit,
+    config.loginLockoutMaxSeconds
+  );
+  // Start a fresh window so the lock lasts exactly `lockSeconds`
+  await store.reset(lockKey(email));
+  const lock = await store.increment(lockKey(email), lockSeconds * 1000);
+  return lockedError(lock.resetAt);
+};
+
+export const clearLoginFailures = async (email: string) => {
+  await store.reset(failureKey(email));
+  await store.reset(lockKey(email));
+};
@@ -0,0 +1,29 @@
+import mongoose from "mongoose";
+import type { RefreshToken } from "./userTypes.ts";
+
+const refreshTokenSchema = new mongoose.Schema<RefreshToken>(
+  {
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true,
+      ref: "Users",
+      index: true,
+    },
+    // Only the SHA-256 of the token is stored
+    tokenHash: { type: String, required: true, unique: true },
+    expiresAt: { type: Date, required: true },
+    revokedAt: { type: Date },
+    replacedBy: { type: mongoose.Schema.Types.ObjectId, ref: "RefreshTokens" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+// Let MongoDB drop expired tokens on its own
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const refreshTokenModel = mongoose.model<RefreshToken>(
+  "RefreshTokens",
+  refreshTokenSchema
+);
+
+export default refreshTokenModel;
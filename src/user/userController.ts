@@ -1,32 +1,77 @@
 import type { NextFunction, Request, Response } from "express";
-import createHttpError from "http-errors";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  InternalError,
+  NotFoundError,
+  UnauthorizedError,
+  UpstreamError,
+} from "../errors/appError.ts";
 import userModel from "./userModel.ts";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
-import { config } from "../config/config.ts";
+import {
+  consumeActionToken,
+  issueTokens,
+  revokeRefreshToken,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from "./userTokens.ts";
+import type { AuthTokens } from "./userTypes.ts";
+import type { ValidatedRequest } from "../middlewares/validate.ts";
+import type {
+  changePasswordSchema,
+  deleteAccountSchema,
+  forgotPasswordSchema,
+  loginSchema,
+  refreshTokenSchema,
+  registerSchema,
+  resetPasswordSchema,
+  updateProfileSchema,
+  userProfileSchema,
+  verifyEmailSchema,
+} from "./userSchemas.ts";
+import {
+  assertLoginAllowed,
+  clearLoginFailures,
+  recordLoginFailure,
+} from "./loginLockout.ts";
+import { sendPasswordResetEmail, sendVerificationEmail } from "./userEmails.ts";
+import type { AuthRequest } from "../middlewares/authenticate.ts";
+import storage from "../storage/storage.ts";
+import type { StoredAsset } from "../storage/storageTypes.ts";
+import { formatFromMimeType } from "../upload/fileSignature.ts";
+import type { UploadedFiles } from "../upload/uploadTypes.ts";
+import bookModel from "../book/bookModel.ts";
+import downloadModel from "../book/downloadModel.ts";
+import { removeBook } from "../book/bookService.ts";
+import reviewModel, { syncBookRating } from "../review/reviewModel.ts";
+import { removeUserLibrary } from "../library/libraryController.ts";
+import refreshTokenModel from "./refreshTokenModel.ts";
+import actionTokenModel from "./actionTokenModel.ts";
+import logger from "../observability/logger.ts";
 
 const createUser = async (req: Request, res: Response, next: NextFunction) => {
-  //Validation
-  const { name, email, password } = req.body;
-
-  if (!name || !email || !password) {
-    const httpError = createHttpError(400, "All fields are required");
-    return next(httpError);
-  }
+  // Body is validated by validate(registerSchema)
+  const { name, email, password } = (
+    req as ValidatedRequest<typeof registerSchema>
+  ).body;
 
   //Logic - Database call
   try {
     const user =await userModel.findOne({ email });
     if (user) {
-      const error = createHttpError(400, "User already exist with this email");
+      const error = new ConflictError("User already exist with this email", {
+        code: "EMAIL_TAKEN",
+      });
       return next(error);
     }
   } catch (error) {
-    return next(createHttpError(500, "Error while getting info on user exist or not"))
+    return next(new InternalError("Error while getting info on user exist or not"))
   }
 
  
-  let token:string ;
+  let tokens: AuthTokens;
   try {
     let hashedPassword = await bcrypt.hash(password, 10);
     const newUser = await userModel.insertOne({
@@ -34,60 +79,505 @@ const createUser = async (req: Request, res: Response, next: NextFunction) => {
     email,
     password: hashedPassword,
   });
-    token = jwt.sign({ sub: newUser._id }, config.jwtSecret as string, {
-    expiresIn: "7d",
-  });
+    tokens = await issueTokens(
+      newUser._id.toString(),
+      newUser.tokenVersion
+    );
+
+    // Registration succeeds even if the mail cannot be sent right now;
+    // the user can ask for a new link from /me/verify-email
+    sendVerificationEmail(newUser).catch((error) => {
+      logger.error({ err: error }, "Failed to send verification email");
+    });
 
   } catch (error) {
-    return next(createHttpError(500, "Error while creating user"))
+    return next(new InternalError("Error while creating user"))
   }
 
   res.status(201).json({
+    message: "User created sucessfully",
     msg: "User created sucessfully",
-    accessToken: token,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
   });
 };
 
 
+// Compared against when the email is unknown so both failure paths take
+// the same time and return the same error
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("elib-dummy-password", 10);
+
 const loginUser = async (req: Request, res: Response, next: NextFunction) =>{
-  //validation
-  const {email, password} = req.body;
+  // Body is validated by validate(loginSchema)
+  const { email, password } = (req as ValidatedRequest<typeof loginSchema>).body;
+
+  let tokens: AuthTokens;
+  try {
+    await assertLoginAllowed(email);
+
+    const userExist = await userModel.findOne({email})
+
+    let isMatch = await bcrypt.compare(
+      password,
+      userExist?.password ?? DUMMY_PASSWORD_HASH
+    );
+
+    if(!userExist || !isMatch){
+      const lockedError = await recordLoginFailure(email);
+      return next(
+        lockedError ??
+          new UnauthorizedError("Invalid email or password", {
+            code: "INVALID_CREDENTIALS",
+          })
+      )
+    }
+    await clearLoginFailures(email);
+    tokens = await issueTokens(
+      userExist._id.toString(),
+      userExist.tokenVersion
+    );
+
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    return next(new InternalError("Error while login user"))
+  }
+
+  res.status(200).json({
+    message: "User logged in sucessfully",
+    msg: "User logged in sucessfully",
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
 
-  if(!email || !password){
-    return next(createHttpError(401, "All fields are required"))
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair.
+ * The presented refresh token is rotated (single use).
+ */
+const refreshUserToken = async (req: Request, res: Response, next: NextFunction) => {
+  const { refreshToken } = (
+    req as ValidatedRequest<typeof refreshTokenSchema>
+  ).body;
+
+  let tokens: AuthTokens;
+  try {
+    tokens = await rotateRefreshToken(refreshToken);
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Refresh token rotation error");
+    return next(new InternalError("Error while refreshing token"));
   }
 
+  res.status(200).json({
+    message: "Token refreshed sucessfully",
+    msg: "Token refreshed sucessfully",
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  });
+};
+
+/**
+ * Logout: revoke the given refresh token and invalidate every outstanding
+ * access/refresh token of its owner.
+ */
+const logoutUser = async (req: Request, res: Response, next: NextFunction) => {
+  const { refreshToken } = (
+    req as ValidatedRequest<typeof refreshTokenSchema>
+  ).body;
+
+  try {
+    const userId = await revokeRefreshToken(refreshToken);
+    if (userId) {
+      await revokeUserSessions(userId);
+    }
+  } catch (error) {
+    logger.error({ err: error }, "Logout error");
+    return next(new InternalError("Error while logging out"));
+  }
+
+  res.status(204).end();
+};
+
+
 
-  const userExist = await userModel.findOne({email})
+/**
+ * Current user's own profile.
+ */
+const getMe = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await userModel.findById((req as AuthRequest).userId);
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
+    res.json({
+      message: "Profile fetched sucessfully",
+      user,
+    });
+  } catch (error) {
+    return next(new InternalError("Error while fetching profile"));
+  }
+};
 
-  if(!userExist){
-    const error = createHttpError(404,"User does't exist or email is incprrect")
-    return next(error)
+const updateMe = async (req: Request, res: Response, next: NextFunction) => {
+  const { name, bio } = (req as ValidatedRequest<typeof updateProfileSchema>)
+    .body;
+
+  try {
+    const user = await userModel.findByIdAndUpdate(
+      (req as AuthRequest).userId,
+      {
+        ...(name !== undefined ? { name } : {}),
+        ...(bio !== undefined ? { bio } : {}),
+      },
+      { new: true, runValidators: true }
+    );
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
+    res.json({
+      message: "Profile updated sucessfully",
+      user,
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to update profile");
+    return next(new InternalError("Error while updating profile"));
   }
+};
+
+/**
+ * Change password:
+ *  - verify the current password with bcrypt
+ *  - store the new hash and revoke every existing session
+ *  - return a fresh token pair for the caller
+ */
+const changePassword = async (req: Request, res: Response, next: NextFunction) => {
+  const { currentPassword, newPassword } = (
+    req as ValidatedRequest<typeof changePasswordSchema>
+  ).body;
+  const userId = (req as AuthRequest).userId;
 
-  let token:string ;
+  let tokens: AuthTokens;
   try {
-    let isMatch = await bcrypt.compare(password, userExist.password);
+    const user = await userModel.findById(userId);
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
 
-    if(!isMatch){
-      return next(createHttpError(401, "Password does't match"))
+    if (!(await bcrypt.compare(currentPassword, user.password))) {
+      return next(
+        new UnauthorizedError("Current password is incorrect", {
+          code: "INVALID_CREDENTIALS",
+        })
+      );
     }
-    token = jwt.sign({ sub: userExist._id }, config.jwtSecret as string, {
-    expiresIn: "7d",
+
+    user.password = await bcrypt.hash(newPassword, 10);
+    await user.save();
+
+    await revokeUserSessions(userId);
+    const refreshed = await userModel.findById(userId).select("tokenVersion");
+    tokens = await issueTokens(userId, refreshed?.tokenVersion ?? 0);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to change password");
+    return next(new InternalError("Error while changing password"));
+  }
+
+  res.json({
+    message: "Password changed sucessfully",
+    msg: "Password changed sucessfully",
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
   });
+};
+
+/**
+ * Replace the current user's avatar. The file goes through the same
+ * verification pipeline as book covers; the previous avatar is removed
+ * after the new one is stored.
+ */
+const uploadAvatar = async (req: Request, res: Response, next: NextFunction) => {
+  const files = req.files as UploadedFiles | undefined;
+  const avatarFile = files?.avatar?.[0];
+  const userId = (req as AuthRequest).userId;
+
+  if (!avatarFile) {
+    return next(new BadRequestError("Missing uploaded file: avatar"));
+  }
+
+  const format = formatFromMimeType(avatarFile.mimetype);
 
+  let asset: StoredAsset;
+  try {
+    asset = await storage.upload(avatarFile.path, {
+      filename: avatarFile.filename,
+      folder: "avatars",
+      resourceType: "image",
+      ...(format ? { format } : {}),
+    });
   } catch (error) {
-    return next(createHttpError(500, "Error while login user"))
+    logger.error({ err: error }, `${storage.name} avatar upload error`);
+    return next(new UpstreamError("Failed to upload avatar"));
   }
 
-  res.status(201).json({
-    msg: "User logged in sucessfully",
-    accessToken: token,
+  let previousAvatarId: string | undefined;
+  let user;
+  try {
+    const previous = await userModel.findByIdAndUpdate(userId, {
+      avatar: asset.url,
+      avatarId: asset.assetId,
+    });
+    previousAvatarId = previous?.avatarId;
+    user = await userModel.findById(userId);
+  } catch (error) {
+    await storage.delete(asset.assetId, "image").catch(() => {});
+    logger.error({ err: error }, "Failed to save avatar");
+    return next(new InternalError("Error while saving avatar"));
+  }
+
+  if (previousAvatarId) {
+    await storage.delete(previousAvatarId, "image").catch((error) => {
+      logger.warn({ err: error }, "Failed to delete previous avatar");
+    });
+  }
+
+  res.json({
+    message: "Avatar updated sucessfully",
+    user,
   });
+};
 
-}
+/**
+ * Public author profile with their visible books, newest first.
+ */
+const getUserProfile = async (req: Request, res: Response, next: NextFunction) => {
+  const { params, query } = req as unknown as ValidatedRequest<
+    typeof userProfileSchema
+  >;
+  const { page, limit } = query;
 
+  try {
+    const user = await userModel
+      .findById(params.userId)
+      .select("name bio avatar role createdAt");
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
+
+    const filter = {
+      author: params.userId,
+      status: "published",
+      hidden: { $ne: true },
+      deletedAt: null,
+    };
+    const [books, total] = await Promise.all([
+      bookModel
+        .find(filter)
+        .sort({ createdAt: -1, _id: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      bookModel.countDocuments(filter),
+    ]);
+
+    res.json({
+      message: "Profile fetched sucessfully",
+      user,
+      books,
+      pagination: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to fetch user profile");
+    return next(new InternalError("Error while fetching profile"));
+  }
+};
+
+/**
+ * Delete the current account after re-checking the password:
+ *  - remove the user's books with their assets, reviews and references
+ *  - remove the user's reviews (re-syncing affected book ratings), library,
+ *    sessions, download log and avatar
+ */
+const deleteMe = async (req: Request, res: Response, next: NextFunction) => {
+  const { password } = (req as ValidatedRequest<typeof deleteAccountSchema>)
+    .body;
+  const userId = (req as AuthRequest).userId;
+
+  let user;
+  try {
+    user = await userModel.findById(userId);
+  } catch (error) {
+    return next(new InternalError("Error while fetching profile"));
+  }
+
+  if (!user) {
+    return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    return next(
+      new UnauthorizedError("Password is incorrect", {
+        code: "INVALID_CREDENTIALS",
+      })
+    );
+  }
+
+  try {
+    // 1. Books and everything attached to them
+    const books = await bookModel.find({ author: userId });
+    for (const book of books) {
+      await removeBook(book);
+    }
+
+    // 2. Reviews written by the user
+    const reviewedBooks = await reviewModel.distinct("book", { user: userId });
+    await reviewModel.deleteMany({ user: userId });
+    for (const bookId of reviewedBooks) {
+      await syncBookRating(bookId);
+    }
+
+    // 3. Per-user state
+    await removeUserLibrary(userId);
+    await refreshTokenModel.deleteMany({ user: userId });
+    await actionTokenModel.deleteMany({ user: userId });
+    await downloadModel.deleteMany({ user: userId });
+
+    if (user.avatarId) {
+      await storage.delete(user.avatarId, "image");
+    }
+
+    await userModel.deleteOne({ _id: userId });
+  } catch (error) {
+    logger.error({ err: error }, "Failed to delete account");
+    return next(new InternalError("Error while deleting account"));
+  }
 
+  res.status(204).end();
+};
+
+/**
+ * Start a password reset. Always answers 202, and without waiting for the
+ * email, so neither the response nor its timing reveals whether the email
+ * is registered.
+ */
+const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  const { email } = (req as ValidatedRequest<typeof forgotPasswordSchema>).body;
+
+  try {
+    const user = await userModel.findOne({ email });
+    if (user) {
+      sendPasswordResetEmail(user).catch((error) => {
+        logger.error({ err: error }, "Failed to send password reset email");
+      });
+    }
+  } catch (error) {
+    logger.error({ err: error }, "Failed to start password reset");
+    return next(new InternalError("Error while requesting password reset"));
+  }
 
-export { createUser, loginUser };
+  res.status(202).json({
+    message: "If that email is registered, a reset link has been sent",
+    msg: "If that email is registered, a reset link has been sent",
+  });
+};
+
+/**
+ * Finish a password reset with the emailed token. Every existing session is
+ * revoked; the user logs in again with the new password.
+ */
+const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  const { token, password } = (
+    req as ValidatedRequest<typeof resetPasswordSchema>
+  ).body;
+
+  let userId: string;
+  try {
+    userId = await consumeActionToken(token, "reset-password");
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    return next(new InternalError("Error while resetting password"));
+  }
+
+  try {
+    const hashedPassword = await bcrypt.hash(password, 10);
+    // Receiving the link proves ownership of the address as well
+    await userModel.updateOne(
+      { _id: userId },
+      { password: hashedPassword, emailVerified: true }
+    );
+    await revokeUserSessions(userId);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to reset password");
+    return next(new InternalError("Error while resetting password"));
+  }
+
+  res.json({
+    message: "Password reset sucessfully",
+    msg: "Password reset sucessfully",
+  });
+};
+
+const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  const { token } = (
+    req as unknown as ValidatedRequest<typeof verifyEmailSchema>
+  ).query;
+
+  try {
+    const userId = await consumeActionToken(token, "verify-email");
+    await userModel.updateOne({ _id: userId }, { emailVerified: true });
+  } catch (error) {
+    if (error instanceof AppError) return next(error);
+    logger.error({ err: error }, "Failed to verify email");
+    return next(new InternalError("Error while verifying email"));
+  }
+
+  res.json({
+    message: "Email verified sucessfully",
+    msg: "Email verified sucessfully",
+  });
+};
+
+/**
+ * Send a new verification link to the current user.
+ */
+const resendVerification = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = await userModel.findById((req as AuthRequest).userId);
+    if (!user) {
+      return next(new NotFoundError("User not found", { code: "USER_NOT_FOUND" }));
+    }
+    if (user.emailVerified) {
+      return next(
+        new ConflictError("Email is already verified", {
+          code: "EMAIL_ALREADY_VERIFIED",
+        })
+      );
+    }
+    await sendVerificationEmail(user);
+  } catch (error) {
+    logger.error({ err: error }, "Failed to resend verification email");
+    return next(new InternalError("Error while sending verification email"));
+  }
+
+  res.status(202).json({
+    message: "Verification email sent",
+    msg: "Verification email sent",
+  });
+};
+
+export {
+  createUser,
+  loginUser,
+  refreshUserToken,
+  logoutUser,
+  getMe,
+  updateMe,
+  changePassword,
+  uploadAvatar,
+  getUserProfile,
+  deleteMe,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+};
  
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { z } from "zod";
+import { bookSchema } from "../book/bookDocs.ts";
+import {
+  component,
+  dateTime,
+  message,
+  objectIdString,
+  pagination,
+} from "../docs/responseSchemas.ts";
+import type { RouteDocs } from "../docs/docsTypes.ts";
+import {
+  changePassword,
+  createUser,
+  deleteMe,
+  forgotPassword,
+  getMe,
+  getUserProfile,
+  loginUser,
+  logoutUser,
+  refreshUserToken,
+  resendVerification,
+  resetPassword,
+  updateMe,
+  uploadAvatar,
+  verifyEmail,
+} from "./userController.ts";
+import { USER_ROLES, type user } from "./userTypes.ts";
+
+// What userModel's toJSON leaves of a user
+const userFields = {
+  _id: objectIdString,
+  name: z.string(),
+  email: z.email(),
+  role: z.enum(USER_ROLES),
+  emailVerified: z.boolean(),
+  bio: z.string().optional(),
+  avatar: z.url().optional(),
+} satisfies Record<
+  Exclude<keyof user, "password" | "tokenVersion" | "avatarId">,
+  z.ZodType
+>;
+
+export const userSchema = component(
+  "User",
+  z.looseObject({ ...userFields, createdAt: dateTime, updatedAt: dateTime })
+);
+
+const publicProfile = component(
+  "PublicProfile",
+  z.object({
+    _id: userFields._id,
+    name: userFields.name,
+    bio: userFields.bio,
+    avatar: userFields.avatar,
+    role: userFields.role,
+    createdAt: dateTime,
+  })
+);
+
+const legacyMsg = message.meta({ deprecated: true, description: "Same as message" });
+
+const messageResponse = component(
+  "MessageResponse",
+  z.object({ message, msg: legacyMsg })
+);
+
+const tokenResponse = component(
+  "TokenResponse",
+  z.object({
+    message,
+    msg: legacyMsg,
+    accessToken: z.string().meta({ description: "Short-lived JWT" }),
+    refreshToken: z
+      .string()
+      .meta({ description: "Single-use; exchange at /api/users/refresh" }),
+  })
+);
+
+const profileResponse = z.object({ message, user: userSchema });
+
+export const userDocs: RouteDocs = new Map([
+  [
+    createUser,
+    {
+      summary: "Register",
+      description: "Sends an email verification link.",
+      status: 201,
+      response: tokenResponse,
+      responses: { 409: "An account with this email already exists" },
+    },
+  ],
+  [
+    loginUser,
+    {
+      summary: "Log in",
+      description:
+        "Repeated failures lock the email out for a growing period, answered with 429.",
+      response: tokenResponse,
+    },
+  ],
+  [
+    refreshUserToken,
+    {
+      summary: "Exchange a refresh token for a new token pair",
+      description:
+        "The refresh token is rotated; reusing an old one revokes every session of the user.",
+      response: tokenResponse,
+    },
+  ],
+  [logoutUser, { summary: "Revoke a refresh token", status: 204 }],
+  [
+    forgotPassword,
+    {
+      summary: "Request a password reset link",
+      description: "Answers the same whether or not the email is registered.",
+      status: 202,
+      response: messageResponse,
+    },
+  ],
+  [
+    resetPassword,
+    {
+      summary: "Reset a password",
+      description: "Also verifies the email and revokes every session.",
+      response: messageResponse,
+    },
+  ],
+  [
+    verifyEmail,
+    { summary: "Verify an email address", response: messageResponse },
+  ],
+  [getMe, { summary: "Get your profile", response: profileResponse }],
+  [updateMe, { summary: "Update your profile", response: profileResponse }],
+  [
+    deleteMe,
+    {
+      summary: "Delete your account",
+      description:
+        "Removes your books with their files, your reviews, library and sessions.",
+      status: 204,
+    },
+  ],
+  [
+    changePassword,
+    {
+      summary: "Change your password",
+      description: "Revokes every other session and returns a fresh token pair.",
+      response: tokenResponse,
+    },
+  ],
+  [uploadAvatar, { summary: "Replace your avatar", response: profileResponse }],
+  [
+    resendVerification,
+    {
+      summary: "Resend the email verification link",
+      status: 202,
+      response: messageResponse,
+      responses: { 409: "The email is already verified" },
+    },
+  ],
+  [
+    getUserProfile,
+    {
+      summary: "Get an author's public profile",
+      description: "With their published books, newest first.",
+      response: z.object({
+        message,
+        user: publicProfile,
+        books: z.array(bookSchema),
+        pagination,
+      }),
+    },
+  ],
+]);
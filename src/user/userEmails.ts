@@ -0,0 +1,44 @@
+import { config } from "../config/config.ts";
+import mailer from "../mail/mailer.ts";
+import { createActionToken } from "./userTokens.ts";
+
+const apiUrl = () =>
+  (config.appUrl || `http://localhost:${config.port}`).replace(/\/$/, "");
+
+const clientUrl = () => (config.clientUrl || apiUrl()).replace(/\/$/, "");
+
+/**
+ * Email a fresh verification link (valid 24 hours).
+ */
+export const sendVerificationEmail = async (user: {
+  _id: unknown;
+  name: string;
+  email: string;
+}) => {
+  const token = await createActionToken(String(user._id), "verify-email");
+  const link = `${apiUrl()}/api/users/verify-email?token=${token}`;
+
+  await mailer.send({
+    to: user.email,
+    subject: "Verify your eLib email address",
+    text: `Hi ${user.name},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+  });
+};
+
+/**
+ * Email a password reset link (valid 1 hour).
+ */
+export const sendPasswordResetEmail = async (user: {
+  _id: unknown;
+  name: string;
+  email: string;
+}) => {
+  const token = await createActionToken(String(user._id), "reset-password");
+  const link = `${clientUrl()}/reset-password?token=${token}`;
+
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your eLib password",
+    text: `Hi ${user.name},\n\nSomeone asked to reset your password. If that was you, open this link:\n${link}\n\nThe link expires in 1 hour. If you did not ask for this, ignore this email.`,
+  });
+};
@@ -1,15 +1,33 @@
 import mongoose from "mongoose";
-import type { user } from "./userTypes.ts";
+import { USER_ROLES, type user } from "./userTypes.ts";
 
 const userSchema = new mongoose.Schema<user>(
   {
     name: { type: String, required: true },
     email: { type: String, required: true, unique: true },
     password: { type: String, required: true },
+    // New accounts can publish straight away; admins demote to "reader"
+    role: { type: String, enum: USER_ROLES, required: true, default: "author" },
+    emailVerified: { type: Boolean, required: true, default: false },
+    bio: { type: String, maxlength: 1000 },
+    avatar: { type: String },
+    avatarId: { type: String },
+    tokenVersion: { type: Number, required: true, default: 0 },
   },
-  { timestamps: true }
+  {
+    timestamps: true,
+    // Never serialise credentials or session state
+    toJSON: {
+      transform: (_doc, ret: Partial<user>) => {
+        delete ret.password;
+        delete ret.tokenVersion;
+        delete ret.avatarId;
+        return ret;
+      },
+    },
+  }
 );
 
 const userModel = mongoose.model<user>("Users", userSchema);
 
-export default userModel
\ No newline at end of file
+export default userModel
@@ -1,12 +1,44 @@
 import express from "express";
-import {createUser, loginUser} from "./userController.ts";
+import {changePassword, createUser, deleteMe, forgotPassword, getMe, getUserProfile, loginUser, logoutUser, refreshUserToken, resendVerification, resetPassword, updateMe, uploadAvatar, verifyEmail} from "./userController.ts";
+import validate from "../middlewares/validate.ts";
+import libraryRouter from "../library/libraryRouter.ts";
+import { changePasswordSchema, deleteAccountSchema, forgotPasswordSchema, loginSchema, refreshTokenSchema, registerSchema, resetPasswordSchema, updateProfileSchema, userProfileSchema, verifyEmailSchema } from "./userSchemas.ts";
+import authenticate from "../middlewares/authenticate.ts";
+import { AVATAR_UPLOAD_FIELDS, createUploadMiddleware } from "../upload/uploadMiddleware.ts";
+import rateLimit, { clientIp } from "../middlewares/rateLimit.ts";
+import { config } from "../config/config.ts";
 
 const userRouter = express.Router();
 
+// Shared per-IP budget for the unauthenticated credential endpoints
+const authLimiter = rateLimit({
+  name: "auth",
+  windowMs: 15 * 60 * 1000,
+  max: config.authRequestsPerWindow,
+  key: clientIp,
+  message: "Too many requests, try again later",
+});
+
 //routes
 
-userRouter.post("/register", createUser);
-userRouter.post('/login', loginUser)
+userRouter.post("/register", authLimiter, validate(registerSchema), createUser);
+userRouter.post('/login', authLimiter, validate(loginSchema), loginUser)
+userRouter.post('/refresh', validate(refreshTokenSchema), refreshUserToken)
+userRouter.post('/logout', validate(refreshTokenSchema), logoutUser)
+userRouter.post('/forgot-password', authLimiter, validate(forgotPasswordSchema), forgotPassword)
+userRouter.post('/reset-password', authLimiter, validate(resetPasswordSchema), resetPassword)
+userRouter.get('/verify-email', validate(verifyEmailSchema), verifyEmail)
+
+userRouter.get("/me", authenticate, getMe)
+userRouter.patch("/me", authenticate, validate(updateProfileSchema), updateMe)
+userRouter.delete("/me", authenticate, validate(deleteAccountSchema), deleteMe)
+userRouter.post("/me/password", authenticate, validate(changePasswordSchema), changePassword)
+userRouter.post("/me/avatar", authenticate, createUploadMiddleware(AVATAR_UPLOAD_FIELDS), uploadAvatar)
+userRouter.post("/me/verify-email", authenticate, resendVerification)
+
+userRouter.use("/me", libraryRouter)
+
+userRouter.get("/:userId", validate(userProfileSchema), getUserProfile)
 
 export default userRouter;
   
\ No newline at end of file
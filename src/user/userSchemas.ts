@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { objectId } from "../middlewares/validate.ts";
+
+const email = z.string().trim().pipe(z.email("email must be a valid email address"));
+
+// At least 8 chars with a letter and a digit
+export const passwordSchema = z
+  .string()
+  .min(8, "password must be at least 8 characters")
+  .max(128, "password must be at most 128 characters")
+  .regex(/[A-Za-z]/, "password must contain a letter")
+  .regex(/\d/, "password must contain a digit");
+
+export const registerSchema = {
+  body: z.object({
+    name: z.string().trim().min(1, "name is required").max(100),
+    email,
+    password: passwordSchema,
+  }),
+};
+
+export const loginSchema = {
+  body: z.object({
+    email,
+    password: z.string().min(1, "password is required"),
+  }),
+};
+
+export const refreshTokenSchema = {
+  body: z.object({
+    refreshToken: z.string().min(1, "refreshToken is required"),
+  }),
+};
+
+export const updateProfileSchema = {
+  body: z
+    .object({
+      name: z.string().trim().min(1, "name is required").max(100).optional(),
+      bio: z.string().trim().max(1000).optional(),
+    })
+    .refine((b) => b.name !== undefined || b.bio !== undefined, {
+      message: "Provide name and/or bio to update",
+    }),
+};
+
+export const changePasswordSchema = {
+  body: z
+    .object({
+      currentPassword: z.string().min(1, "currentPassword is required"),
+      newPassword: passwordSchema,
+    })
+    .refine((b) => b.currentPassword !== b.newPassword, {
+      message: "newPassword must differ from currentPassword",
+      path: ["newPassword"],
+    }),
+};
+
+export const deleteAccountSchema = {
+  body: z.object({
+    password: z.string().min(1, "password is required"),
+  }),
+};
+
+export const userProfileSchema = {
+  params: z.object({ userId: objectId("userId") }),
+  query: z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  }),
+};
+
+export const forgotPasswordSchema = {
+  body: z.object({ email }),
+};
+
+export const resetPasswordSchema = {
+  body: z.object({
+    token: z.string().min(1, "token is required"),
+    password: passwordSchema,
+  }),
+};
+
+export const verifyEmailSchema = {
+  query: z.object({
+    token: z.string().min(1, "token is required"),
+  }),
+};
@@ -0,0 +1,178 @@
+import crypto from "node:crypto";
+import { BadRequestError, UnauthorizedError } from "../errors/appError.ts";
+import jwt from "jsonwebtoken";
+import mongoose from "mongoose";
+import { config } from "../config/config.ts";
+import actionTokenModel from "./actionTokenModel.ts";
+import refreshTokenModel from "./refreshTokenModel.ts";
+import userModel from "./userModel.ts";
+import type { ActionTokenPurpose, AuthTokens } from "./userTypes.ts";
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Short-lived access token. `ver` carries the user's tokenVersion so
+ * `authenticate` can reject tokens issued before a logout / password change.
+ */
+const signAccessToken = (userId: string, tokenVersion: number) =>
+  jwt.sign({ sub: userId, ver: tokenVersion }, config.jwtSecret, {
+    expiresIn: config.accessTokenExpiresIn as NonNullable<jwt.SignOptions["expiresIn"]>,
+  });
+
+/**
+ * Issue a new access token plus an opaque refresh token. Only the refresh
+ * token hash is persisted.
+ */
+const issueTokens = async (
+  userId: string,
+  tokenVersion: number
+): Promise<AuthTokens & { refreshTokenId: string }> => {
+  const refreshToken = crypto.randomBytes(48).toString("base64url");
+  const doc = await refreshTokenModel.create({
+    user: userId,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(
+      Date.now() + config.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+    ),
+  });
+
+  return {
+    accessToken: signAccessToken(userId, tokenVersion),
+    refreshToken,
+    refreshTokenId: doc._id.toString(),
+  };
+};
+
+/**
+ * Invalidate every session of a user: bump tokenVersion (kills outstanding
+ * access tokens) and revoke all of their refresh tokens.
+ */
+const revokeUserSessions = async (userId: string) => {
+  await userModel.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+  await refreshTokenModel.updateMany(
+    { user: userId, revokedAt: { $exists: false } },
+    { revokedAt: new Date() }
+  );
+};
+
+/**
+ * Exchange a refresh token for a new token pair. The presented token is
+ * revoked; presenting an already-revoked token is treated as theft and
+ * revokes every session of its owner.
+ */
+const rotateRefreshToken = async (refreshToken: string): Promise<AuthTokens> => {
+  const tokenHash = hashToken(refreshToken);
+
+  // Claim the token in one step, so of two requests presenting it at once
+  // only one gets a new pair and the other counts as reuse
+  const claimed = await refreshTokenModel.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: new Date() } },
+    { revokedAt: new Date() }
+  );
+
+  if (!claimed) {
+    const stored = await refreshTokenModel.findOne({ tokenHash });
+    if (stored?.revokedAt && stored.expiresAt.getTime() > Date.now()) {
+      await revokeUserSessions(stored.user.toString());
+      throw new UnauthorizedError("Refresh token has already been used", {
+        code: "REFRESH_TOKEN_REUSED",
+      });
+    }
+    throw new UnauthorizedError("Invalid or expired refresh token", {
+      code: "INVALID_REFRESH_TOKEN",
+    });
+  }
+
+  const userId = claimed.user.toString();
+  const user = await userModel.findById(userId);
+  if (!user) {
+    throw new UnauthorizedError("Invalid or expired refresh token", {
+      code: "INVALID_REFRESH_TOKEN",
+    });
+  }
+
+  const { refreshTokenId, ...tokens } = await issueTokens(
+    userId,
+    user.tokenVersion
+  );
+
+  await refreshTokenModel.updateOne(
+    { _id: claimed._id },
+    { replacedBy: new mongoose.Types.ObjectId(refreshTokenId) }
+  );
+
+  return tokens;
+};
+
+/**
+ * Revoke a single refresh token. Returns the owning user id, or null when
+ * the token is unknown.
+ */
+const revokeRefreshToken = async (refreshToken: string) => {
+  const stored = await refreshTokenModel.findOneAndUpdate(
+    { tokenHash: hashToken(refreshToken) },
+    { revokedAt: new Date() }
+  );
+  return stored ? stored.user.toString() : null;
+};
+
+const ACTION_TOKEN_TTL_MS: Record<ActionTokenPurpose, number> = {
+  "verify-email": 24 * 60 * 60 * 1000,
+  "reset-password": 60 * 60 * 1000,
+};
+
+/**
+ * Create a single-use email token, replacing any unused token of the same
+ * purpose for this user. Returns the raw token to put in the email link.
+ */
+const createActionToken = async (userId: string, purpose: ActionTokenPurpose) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+
+  await actionTokenModel.deleteMany({
+    user: userId,
+    purpose,
+    usedAt: { $exists: false },
+  });
+  await actionTokenModel.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ACTION_TOKEN_TTL_MS[purpose]),
+  });
+
+  return token;
+};
+
+/**
+ * Atomically mark an email token as used and return its user id. Unknown,
+ * expired and already-used tokens are rejected the same way.
+ */
+const consumeActionToken = async (token: string, purpose: ActionTokenPurpose) => {
+  const stored = await actionTokenModel.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() }
+  );
+
+  if (!stored) {
+    throw new BadRequestError("Token is invalid or has expired", {
+      code: "INVALID_ACTION_TOKEN",
+    });
+  }
+
+  return stored.user.toString();
+};
+
+export {
+  createActionToken,
+  consumeActionToken,
+  issueTokens,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeUserSessions,
+};
@@ -1,6 +1,48 @@
+import type mongoose from "mongoose";
+
+export const USER_ROLES = ["reader", "author", "moderator", "admin"] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
 export interface user {
   _id: string;
   name: string;
   email: string;
   password: string;
+  role: UserRole;
+  emailVerified: boolean;
+  bio?: string;
+  avatar?: string;
+  // Storage asset ID of the avatar
+  avatarId?: string;
+  // Bumped to invalidate every access token issued before it
+  tokenVersion: number;
+}
+
+export interface RefreshToken {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+export type ActionTokenPurpose = "verify-email" | "reset-password";
+
+// Single-use, expiring token sent by email; only its hash is stored
+export interface ActionToken {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  purpose: ActionTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
 }